@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { Download, Eye, EyeOff, Layers, RotateCcw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { buildArtifactPreview, createArtifactZip, hasArtifactPreview, type ArtifactFile } from "@/lib/artifacts";
+
+interface ArtifactPanelProps {
+  files: ArtifactFile[];
+  onClose: () => void;
+}
+
+// Wait for a pause in typing before reloading the preview frame
+const PREVIEW_DELAY_MS = 400;
+
+/**
+ * Side-by-side workspace for the files of one reply. Edits stay local to the
+ * panel; mount it with a key per message so each reply starts from its own code.
+ */
+export const ArtifactPanel = ({ files, onClose }: ArtifactPanelProps) => {
+  const [drafts, setDrafts] = useState<ArtifactFile[]>(files);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [showPreview, setShowPreview] = useState(() => hasArtifactPreview(files));
+  const [previewDoc, setPreviewDoc] = useState(() => buildArtifactPreview(files));
+  const { toast } = useToast();
+
+  const activeFile = drafts[activeIndex];
+  const isEdited = drafts.some((draft, index) => draft.content !== files[index]?.content);
+
+  useEffect(() => {
+    if (!showPreview) return;
+    const timer = setTimeout(() => setPreviewDoc(buildArtifactPreview(drafts)), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [drafts, showPreview]);
+
+  const updateActiveFile = (content: string) => {
+    setDrafts(prev => prev.map((draft, index) => (index === activeIndex ? { ...draft, content } : draft)));
+  };
+
+  const downloadZip = () => {
+    const blob = createArtifactZip(drafts);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `artifact-${Date.now()}.zip`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "Downloaded",
+      description: `${drafts.length} files saved as a zip`,
+    });
+  };
+
+  return (
+    <div className="w-[45%] min-w-[360px] border-l border-border bg-card flex flex-col">
+      <div className="p-4 border-b border-border flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Layers className="w-4 h-4 text-primary flex-shrink-0" />
+          <h2 className="font-semibold truncate">Workspace</h2>
+          <span className="text-xs text-muted-foreground">{drafts.length} files</span>
+        </div>
+        <div className="flex items-center gap-1">
+          {hasArtifactPreview(drafts) && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowPreview(!showPreview)}
+              className="h-8 w-8"
+              title={showPreview ? "Hide preview" : "Show preview"}
+            >
+              {showPreview ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setDrafts(files)}
+            disabled={!isEdited}
+            className="h-8 w-8"
+            title="Discard changes"
+          >
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={downloadZip} className="h-8 w-8" title="Download as zip">
+            <Download className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onClose} className="h-8 w-8" title="Close workspace">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex gap-1 px-2 pt-2 border-b border-border overflow-x-auto">
+        {drafts.map((draft, index) => (
+          <button
+            key={draft.name}
+            onClick={() => setActiveIndex(index)}
+            className={`px-3 py-1.5 text-xs font-mono rounded-t-md border border-b-0 whitespace-nowrap transition-colors ${
+              index === activeIndex
+                ? "bg-background border-border text-foreground"
+                : "border-transparent text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            {draft.name}
+            {draft.content !== files[index]?.content && <span className="ml-1 text-primary">•</span>}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={activeFile.content}
+        onChange={(e) => updateActiveFile(e.target.value)}
+        spellCheck={false}
+        aria-label={`Edit ${activeFile.name}`}
+        className={`w-full resize-none bg-background p-4 font-mono text-xs leading-relaxed outline-none ${
+          showPreview ? "h-1/2" : "flex-1"
+        }`}
+      />
+
+      {showPreview && (
+        <div className="flex-1 flex flex-col border-t border-border min-h-0">
+          <div className="bg-muted/30 px-3 py-1.5 text-xs text-muted-foreground font-medium">
+            Live Preview
+          </div>
+          <iframe
+            srcDoc={previewDoc}
+            className="flex-1 w-full border-0 bg-white"
+            sandbox="allow-scripts"
+            title="Workspace Preview"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
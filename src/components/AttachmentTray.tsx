@@ -0,0 +1,58 @@
+import { AlertCircle, CheckCircle2, FileIcon, Image as ImageIcon, X } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+
+export interface PendingAttachment {
+  id: string;
+  file: File;
+  progress: number;
+  status: "queued" | "uploading" | "done" | "error";
+  /** Set once uploaded, so a retried send doesn't upload the file twice */
+  storagePath?: string;
+  error?: string;
+}
+
+interface AttachmentTrayProps {
+  attachments: PendingAttachment[];
+  disabled: boolean;
+  onRemove: (id: string) => void;
+}
+
+const formatSize = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+
+export const AttachmentTray = ({ attachments, disabled, onRemove }: AttachmentTrayProps) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="grid gap-2 sm:grid-cols-2">
+      {attachments.map((attachment) => {
+        const Icon = attachment.file.type.startsWith("image/") ? ImageIcon : FileIcon;
+        return (
+          <div key={attachment.id} className="flex items-center gap-2 p-2 bg-secondary rounded-lg min-w-0">
+            <Icon className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="text-sm flex-1 truncate">{attachment.file.name}</span>
+                <span className="text-xs text-muted-foreground flex-shrink-0">{formatSize(attachment.file.size)}</span>
+              </div>
+              {attachment.status === "uploading" && <Progress value={attachment.progress} className="h-1" />}
+              {attachment.status === "error" && (
+                <p className="text-xs text-destructive truncate">{attachment.error || "Upload failed"}</p>
+              )}
+            </div>
+            {attachment.status === "done" && <CheckCircle2 className="w-4 h-4 text-primary flex-shrink-0" />}
+            {attachment.status === "error" && <AlertCircle className="w-4 h-4 text-destructive flex-shrink-0" />}
+            <button
+              type="button"
+              onClick={() => onRemove(attachment.id)}
+              disabled={disabled}
+              className="p-1 rounded-md hover:bg-background/50 disabled:opacity-40 flex-shrink-0"
+              title="Remove file"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,24 +1,96 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
-import { Copy, Check, Play, X } from "lucide-react";
+import { Copy, Check, Play, X, ListOrdered, WrapText, Ban, Square, Send } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { highlightCode, TOKEN_CLASSES, type HighlightedCode } from "@/lib/highlight";
+import {
+  buildReactPreview,
+  PREVIEW_MESSAGE_CHANNEL,
+  REACT_PREVIEW_LANGUAGES,
+  type PreviewLogEntry,
+  type ReactPreview,
+} from "@/lib/reactPreview";
+import {
+  PYTHON_LANGUAGES,
+  PYTHON_TIMEOUT_MS,
+  runPython,
+  type PythonOutput,
+  type PythonRun,
+  type PythonRunStatus,
+} from "@/lib/pythonRunner";
 
 interface CodeBlockProps {
   code: string;
   language?: string;
+  // Still being streamed in: highlighting is incremental and the preview is held back
+  isStreaming?: boolean;
+  // Offered after running Python; receives a message quoting the output
+  onSendOutput?: (message: string) => void;
 }
 
-const PREVIEWABLE_LANGUAGES = ["html", "css", "javascript", "js", "jsx", "tsx", "react"];
+const PREVIEWABLE_LANGUAGES = ["html", "css", "javascript", "js", ...REACT_PREVIEW_LANGUAGES];
 
-export const CodeBlock = ({ code, language = "code" }: CodeBlockProps) => {
+const LOG_LEVEL_CLASSES: Record<PreviewLogEntry["level"], string> = {
+  log: "text-foreground/90",
+  info: "text-primary",
+  warn: "text-yellow-600 dark:text-yellow-400",
+  error: "text-destructive",
+};
+
+const RUN_STATUS_LABELS: Record<PythonRunStatus | "loading" | "running", string> = {
+  loading: "Loading Python...",
+  running: "Running...",
+  ok: "Finished",
+  error: "Failed",
+  timeout: `Stopped after ${PYTHON_TIMEOUT_MS / 1000}s`,
+  stopped: "Stopped",
+};
+
+// Keeps a shared run well inside the chat message length limit
+const MAX_SHARED_OUTPUT = 3000;
+
+// Display preferences are shared by every code block
+const LINE_NUMBERS_KEY = "codeblock-line-numbers";
+const WRAP_KEY = "codeblock-wrap";
+
+export const CodeBlock = ({ code, language = "code", isStreaming = false, onSendOutput }: CodeBlockProps) => {
   const [copied, setCopied] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
+  const [showLineNumbers, setShowLineNumbers] = useState(() => localStorage.getItem(LINE_NUMBERS_KEY) === "true");
+  const [wrapLines, setWrapLines] = useState(() => localStorage.getItem(WRAP_KEY) === "true");
+  const [reactPreview, setReactPreview] = useState<ReactPreview | null>(null);
+  const [consoleEntries, setConsoleEntries] = useState<PreviewLogEntry[]>([]);
+  const highlightedRef = useRef<HighlightedCode | null>(null);
+  const [runStatus, setRunStatus] = useState<PythonRunStatus | "loading" | "running" | null>(null);
+  const [runOutput, setRunOutput] = useState<PythonOutput[]>([]);
+  const previewFrameRef = useRef<HTMLIFrameElement>(null);
+  const pythonRunRef = useRef<PythonRun | null>(null);
   const { toast } = useToast();
 
-  const isPreviewable = PREVIEWABLE_LANGUAGES.includes(language.toLowerCase());
+  const isPreviewable = PREVIEWABLE_LANGUAGES.includes(language.toLowerCase()) && !isStreaming;
+  const isReactPreview = REACT_PREVIEW_LANGUAGES.includes(language.toLowerCase());
+  const isRunnable = PYTHON_LANGUAGES.includes(language.toLowerCase()) && !isStreaming;
+  const isRunning = runStatus === "loading" || runStatus === "running";
+
+  // Reuses the lines tokenized for the previous render, so each streamed chunk only re-highlights the tail
+  const highlighted = useMemo(() => {
+    const result = highlightCode(code.replace(/\n$/, ""), language, highlightedRef.current);
+    highlightedRef.current = result;
+    return result;
+  }, [code, language]);
+
+  const toggleLineNumbers = () => {
+    localStorage.setItem(LINE_NUMBERS_KEY, String(!showLineNumbers));
+    setShowLineNumbers(!showLineNumbers);
+  };
+
+  const toggleWrap = () => {
+    localStorage.setItem(WRAP_KEY, String(!wrapLines));
+    setWrapLines(!wrapLines);
+  };
 
   const previewContent = useMemo(() => {
-    if (!showPreview) return "";
+    if (!showPreview || isReactPreview) return "";
     
     const lang = language.toLowerCase();
     
@@ -57,40 +129,68 @@ ${code}
 </html>`;
     }
     
-    if (["jsx", "tsx", "react"].includes(lang)) {
-      return `<!DOCTYPE html>
-<html>
-<head>
-<script src="https://unpkg.com/react@18/umd/react.development.js"></script>
-<script src="https://unpkg.com/react-dom@18/umd/react-dom.development.js"></script>
-<script src="https://unpkg.com/@babel/standalone/babel.min.js"></script>
-<style>body { font-family: system-ui, sans-serif; padding: 16px; }</style>
-</head>
-<body>
-<div id="root"></div>
-<script type="text/babel">
-${code}
-const rootElement = document.getElementById('root');
-const root = ReactDOM.createRoot(rootElement);
-try {
-  // Try to find and render the component
-  const componentMatch = \`${code}\`.match(/(?:function|const|class)\\s+(\\w+)/);
-  if (componentMatch) {
-    const ComponentName = eval(componentMatch[1]);
-    if (typeof ComponentName === 'function') {
-      root.render(React.createElement(ComponentName));
-    }
-  }
-} catch(e) {
-  rootElement.innerHTML = '<span style="color:red">Error: ' + e.message + '</span>';
-}
-</script>
-</body>
-</html>`;
-    }
-    
     return code;
-  }, [code, language, showPreview]);
+  }, [code, language, showPreview, isReactPreview]);
+
+  useEffect(() => {
+    if (!showPreview || !isReactPreview) return;
+
+    let cancelled = false;
+    setReactPreview(null);
+    setConsoleEntries([]);
+
+    buildReactPreview(code, language).then((preview) => {
+      if (!cancelled) setReactPreview(preview);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code, language, showPreview, isReactPreview]);
+
+  // Only messages from this block's own frame count; the frame has an opaque origin
+  useEffect(() => {
+    if (!showPreview || !isReactPreview) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== previewFrameRef.current?.contentWindow) return;
+      if (event.data?.channel !== PREVIEW_MESSAGE_CHANNEL) return;
+      setConsoleEntries(prev => [...prev, { level: event.data.level, text: String(event.data.text) }]);
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [showPreview, isReactPreview]);
+
+  // A run left going when the block unmounts would hold up every later run
+  useEffect(() => () => pythonRunRef.current?.stop(), []);
+
+  const runCode = async () => {
+    setRunOutput([]);
+    setRunStatus("loading");
+
+    const run = runPython(code, {
+      onStart: () => setRunStatus("running"),
+      onOutput: (output) => setRunOutput(prev => [...prev, output]),
+    });
+    pythonRunRef.current = run;
+
+    const status = await run.result;
+    if (pythonRunRef.current === run) {
+      pythonRunRef.current = null;
+      setRunStatus(status);
+    }
+  };
+
+  const sendOutput = () => {
+    if (!onSendOutput || !runStatus) return;
+
+    let output = runOutput.map((entry) => entry.text).join("\n");
+    if (output.length > MAX_SHARED_OUTPUT) output = `${output.slice(0, MAX_SHARED_OUTPUT)}\n... (truncated)`;
+
+    const outcome = runStatus === "ok" ? "Output" : `Output (${RUN_STATUS_LABELS[runStatus].toLowerCase()})`;
+    onSendOutput(`I ran the Python code above.\n\n${outcome}:\n\`\`\`\n${output || "(no output)"}\n\`\`\``);
+  };
 
   const copyCode = async () => {
     await navigator.clipboard.writeText(code);
@@ -114,6 +214,39 @@ try {
           <span className="text-xs text-muted-foreground font-mono">{language}</span>
         </div>
         <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={toggleLineNumbers}
+            className={`h-6 px-2 hover:bg-primary/10 ${showLineNumbers ? "text-primary" : ""}`}
+            title={showLineNumbers ? "Hide line numbers" : "Show line numbers"}
+          >
+            <ListOrdered className="w-3 h-3" />
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={toggleWrap}
+            className={`h-6 px-2 hover:bg-primary/10 ${wrapLines ? "text-primary" : ""}`}
+            title={wrapLines ? "Don't wrap lines" : "Wrap lines"}
+          >
+            <WrapText className="w-3 h-3" />
+          </Button>
+          {isRunnable && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={isRunning ? () => pythonRunRef.current?.stop() : runCode}
+              className="h-6 px-2 hover:bg-primary/10"
+              title={isRunning ? "Stop" : "Run"}
+            >
+              {isRunning ? (
+                <Square className="w-3 h-3" />
+              ) : (
+                <Play className="w-3 h-3" />
+              )}
+            </Button>
+          )}
           {isPreviewable && (
             <Button
               size="sm"
@@ -149,19 +282,127 @@ try {
             Live Preview
           </div>
           <div className="bg-background p-2 min-h-[100px] max-h-[300px] overflow-auto">
-            <iframe
-              srcDoc={previewContent}
-              className="w-full min-h-[100px] border-0 bg-white rounded"
-              sandbox="allow-scripts"
-              title="Code Preview"
-            />
+            {isReactPreview ? (
+              reactPreview?.html ? (
+                <iframe
+                  ref={previewFrameRef}
+                  srcDoc={reactPreview.html}
+                  className="w-full min-h-[100px] border-0 bg-white rounded"
+                  sandbox="allow-scripts"
+                  title="Code Preview"
+                />
+              ) : (
+                <div className="p-2 text-xs text-muted-foreground">
+                  {reactPreview ? "The preview could not be compiled" : "Compiling..."}
+                </div>
+              )
+            ) : (
+              <iframe
+                srcDoc={previewContent}
+                className="w-full min-h-[100px] border-0 bg-white rounded"
+                sandbox="allow-scripts"
+                title="Code Preview"
+              />
+            )}
           </div>
+          {isReactPreview && (
+            <div className="border-t border-border/50">
+              <div className="bg-muted/30 px-3 py-1 flex items-center justify-between text-xs text-muted-foreground font-medium">
+                <span>Console{consoleEntries.length > 0 && ` (${consoleEntries.length})`}</span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setConsoleEntries([])}
+                  className="h-5 px-1.5 hover:bg-primary/10"
+                  title="Clear console"
+                >
+                  <Ban className="w-3 h-3" />
+                </Button>
+              </div>
+              <div className="max-h-[160px] overflow-auto px-3 py-2 font-mono text-xs space-y-1">
+                {reactPreview?.error && (
+                  <pre className="whitespace-pre-wrap text-destructive">{reactPreview.error}</pre>
+                )}
+                {consoleEntries.map((entry, index) => (
+                  <pre key={index} className={`whitespace-pre-wrap break-all ${LOG_LEVEL_CLASSES[entry.level]}`}>
+                    {entry.text}
+                  </pre>
+                ))}
+                {!reactPreview?.error && consoleEntries.length === 0 && (
+                  <p className="text-muted-foreground">No output</p>
+                )}
+              </div>
+            </div>
+          )}
         </div>
       )}
       
-      <div className="p-4 font-mono text-xs leading-relaxed overflow-x-auto">
+      {runStatus && (
+        <div className="border-b border-border/50">
+          <div className="bg-muted/30 px-3 py-1 flex items-center justify-between text-xs text-muted-foreground font-medium">
+            <span>Output · {RUN_STATUS_LABELS[runStatus]}</span>
+            <div className="flex items-center gap-1">
+              {onSendOutput && !isRunning && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={sendOutput}
+                  className="h-5 px-1.5 hover:bg-primary/10"
+                  title="Send output to chat"
+                >
+                  <Send className="w-3 h-3" />
+                </Button>
+              )}
+              {!isRunning && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setRunStatus(null)}
+                  className="h-5 px-1.5 hover:bg-primary/10"
+                  title="Close output"
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              )}
+            </div>
+          </div>
+          <div className="max-h-[200px] overflow-auto px-3 py-2 font-mono text-xs">
+            {runOutput.map((entry, index) => (
+              <pre
+                key={index}
+                className={`whitespace-pre-wrap break-all ${entry.stream === "stderr" ? "text-destructive" : "text-foreground/90"}`}
+              >
+                {entry.text}
+              </pre>
+            ))}
+            {!isRunning && runOutput.length === 0 && (
+              <p className="text-muted-foreground">No output</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="py-4 font-mono text-xs leading-relaxed overflow-x-auto">
         <pre className="text-foreground/90">
-          <code>{code}</code>
+          <code className={wrapLines ? "block" : "block min-w-fit"}>
+            {highlighted.tokens.map((tokens, lineIndex) => (
+              <div key={lineIndex} className="flex px-4">
+                {showLineNumbers && (
+                  <span className="select-none shrink-0 min-w-[2rem] pr-4 text-right text-muted-foreground/50">
+                    {lineIndex + 1}
+                  </span>
+                )}
+                <span className={wrapLines ? "min-w-0 whitespace-pre-wrap break-all" : "whitespace-pre"}>
+                  {tokens.map((token, tokenIndex) => (
+                    <span key={tokenIndex} className={TOKEN_CLASSES[token.type]}>
+                      {token.text}
+                    </span>
+                  ))}
+                  {"\n"}
+                </span>
+              </div>
+            ))}
+          </code>
         </pre>
       </div>
     </div>
@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+
+export interface KnowledgeCollection {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+}
+
+interface CollectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  collection: KnowledgeCollection | null;
+  onSaved: (collection: KnowledgeCollection) => void;
+  onDeleted: (collectionId: string) => void;
+}
+
+const collectionSchema = z.object({
+  name: z.string().trim().min(1, "Name cannot be empty").max(80, "Name must be less than 80 characters"),
+  description: z.string().trim().max(500, "Description must be less than 500 characters"),
+});
+
+export const CollectionDialog = ({ open, onOpenChange, userId, collection, onSaved, onDeleted }: CollectionDialogProps) => {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(collection?.name ?? "");
+    setDescription(collection?.description ?? "");
+  }, [open, collection]);
+
+  const handleSave = async () => {
+    const result = collectionSchema.safeParse({ name, description });
+    if (!result.success) {
+      toast({
+        title: "Validation Error",
+        description: result.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const values = {
+      name: result.data.name,
+      description: result.data.description || null,
+    };
+
+    const { data, error } = collection
+      ? await supabase.from("knowledge_collections").update(values).eq("id", collection.id).select().single()
+      : await supabase.from("knowledge_collections").insert({ ...values, user_id: userId }).select().single();
+
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save collection",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: collection ? "Collection updated" : "Collection created" });
+    onSaved(data as KnowledgeCollection);
+    onOpenChange(false);
+  };
+
+  const handleDelete = async () => {
+    if (!collection) return;
+
+    setSaving(true);
+
+    // Rows cascade with the collection, but the files have to be removed from storage first
+    const { data: documents } = await supabase
+      .from("knowledge_documents")
+      .select("storage_path")
+      .eq("collection_id", collection.id);
+
+    const paths = (documents || []).map((d) => d.storage_path);
+    if (paths.length > 0) {
+      await supabase.storage.from("chat-files").remove(paths);
+    }
+
+    const { error } = await supabase.from("knowledge_collections").delete().eq("id", collection.id);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete collection",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Collection deleted" });
+    onDeleted(collection.id);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{collection ? "Edit Collection" : "New Collection"}</DialogTitle>
+          <DialogDescription>
+            Conversations that use a collection can search every document in it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="collection-name">Name</Label>
+            <Input
+              id="collection-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Product docs"
+              maxLength={80}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="collection-description">Description</Label>
+            <Textarea
+              id="collection-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Specs, release notes and support articles for the mobile app"
+              className="min-h-[80px]"
+              maxLength={500}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {collection && (
+            <Button variant="destructive" onClick={handleDelete} disabled={saving} className="sm:mr-auto">
+              Delete
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving} className="bg-gradient-primary hover:opacity-90">
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { Archive, ArchiveRestore, Check, MoreHorizontal, Pencil, Pin, PinOff, Sparkles, Trash2, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface ConversationItemProps {
+  title: string;
+  isActive: boolean;
+  pinned: boolean;
+  archived: boolean;
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onRegenerateTitle: () => void;
+  onTogglePin: () => void;
+  onToggleArchive: () => void;
+  onDelete: () => void;
+}
+
+export const ConversationItem = ({
+  title,
+  isActive,
+  pinned,
+  archived,
+  onSelect,
+  onRename,
+  onRegenerateTitle,
+  onTogglePin,
+  onToggleArchive,
+  onDelete,
+}: ConversationItemProps) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState(title);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+
+  const startRenaming = () => {
+    setDraftTitle(title);
+    setIsRenaming(true);
+  };
+
+  const submitRename = () => {
+    const trimmed = draftTitle.trim();
+    setIsRenaming(false);
+    if (trimmed && trimmed !== title) {
+      onRename(trimmed.slice(0, 100));
+    }
+  };
+
+  if (isRenaming) {
+    return (
+      <div className="flex items-center gap-1 p-1 mb-2 rounded-lg bg-secondary">
+        <Input
+          value={draftTitle}
+          onChange={(e) => setDraftTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") submitRename();
+            if (e.key === "Escape") setIsRenaming(false);
+          }}
+          maxLength={100}
+          className="h-8 text-sm"
+          autoFocus
+        />
+        <button onClick={submitRename} className="p-1.5 rounded-md hover:bg-background/50" title="Save">
+          <Check className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={() => setIsRenaming(false)} className="p-1.5 rounded-md hover:bg-background/50" title="Cancel">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div
+        className={`group flex items-center rounded-lg mb-2 transition-colors ${
+          isActive ? "bg-secondary" : "hover:bg-secondary/50"
+        }`}
+      >
+        <button
+          onClick={onSelect}
+          onDoubleClick={startRenaming}
+          className="flex-1 min-w-0 flex items-center gap-2 text-left p-3"
+        >
+          {pinned && <Pin className="w-3 h-3 flex-shrink-0 text-primary" />}
+          <p className="truncate text-sm">{title}</p>
+        </button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              className="p-1.5 mr-1 rounded-md opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 hover:bg-background/50 transition-opacity"
+              title="Conversation options"
+            >
+              <MoreHorizontal className="w-4 h-4" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={startRenaming}>
+              <Pencil className="w-4 h-4 mr-2" />
+              Rename
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={onRegenerateTitle}>
+              <Sparkles className="w-4 h-4 mr-2" />
+              Regenerate title
+            </DropdownMenuItem>
+            {!archived && (
+              <DropdownMenuItem onClick={onTogglePin}>
+                {pinned ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+                {pinned ? "Unpin" : "Pin to top"}
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem onClick={onToggleArchive}>
+              {archived ? <ArchiveRestore className="w-4 h-4 mr-2" /> : <Archive className="w-4 h-4 mr-2" />}
+              {archived ? "Unarchive" : "Archive"}
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() => setShowDeleteConfirm(true)}
+              className="text-destructive focus:text-destructive"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{title}" and all of its messages and attached files will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onDelete} className="bg-destructive hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
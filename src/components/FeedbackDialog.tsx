@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FEEDBACK_CATEGORIES, type FeedbackCategory } from "@/lib/feedback";
+
+interface FeedbackDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (details: { category: FeedbackCategory | null; reason: string | null }) => void;
+}
+
+const MAX_REASON_LENGTH = 1000;
+
+export const FeedbackDialog = ({ open, onOpenChange, onSubmit }: FeedbackDialogProps) => {
+  const [category, setCategory] = useState<FeedbackCategory | null>(null);
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setCategory(null);
+      setReason("");
+    }
+  }, [open]);
+
+  const submit = (withDetails: boolean) => {
+    onSubmit(withDetails
+      ? { category, reason: reason.trim() || null }
+      : { category: null, reason: null });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>What went wrong?</DialogTitle>
+          <DialogDescription>
+            Optional details help us understand bad answers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={category ?? ""}
+          onValueChange={(value) => setCategory(value as FeedbackCategory)}
+          className="grid grid-cols-2 gap-2"
+        >
+          {FEEDBACK_CATEGORIES.map((option) => (
+            <div key={option.id} className="flex items-center space-x-2">
+              <RadioGroupItem value={option.id} id={`feedback-${option.id}`} />
+              <Label htmlFor={`feedback-${option.id}`} className="font-normal">{option.label}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <Textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Tell us more (optional)"
+          className="min-h-[80px]"
+          maxLength={MAX_REASON_LENGTH}
+        />
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => submit(false)}>
+            Skip
+          </Button>
+          <Button onClick={() => submit(true)} className="bg-gradient-primary hover:opacity-90">
+            Submit
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
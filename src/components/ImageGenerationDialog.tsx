@@ -0,0 +1,353 @@
+import { useEffect, useState } from "react";
+import { Bookmark, Trash2, Wand2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { StorageImage } from "@/components/StorageImage";
+import {
+  ASPECT_RATIOS,
+  BUILT_IN_STYLE_PRESETS,
+  DEFAULT_ASPECT_RATIO,
+  MAX_IMAGE_COUNT,
+  MAX_STYLE_LENGTH,
+  isBuiltInPreset,
+  type AspectRatio,
+  type ImageGenerationOptions,
+  type ImageStylePreset,
+} from "@/lib/imageOptions";
+
+/**
+ * Earlier image an edit or variation request starts from: a stored attachment,
+ * or an inline URL in messages from before images were stored
+ */
+export interface ImageSource {
+  messageId: string;
+  mode: "edit" | "variation";
+  storagePath?: string;
+  url?: string;
+}
+
+interface ImageGenerationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string | null;
+  source: ImageSource | null;
+  isGenerating: boolean;
+  onGenerate: (options: ImageGenerationOptions) => void;
+}
+
+const COPY = {
+  generate: {
+    title: "Generate Image",
+    description: "Describe the image you want to create",
+    placeholder: "A futuristic city with flying cars...",
+  },
+  edit: {
+    title: "Edit Image",
+    description: "Describe what to change",
+    placeholder: "Make the sky a sunset and add a hot air balloon...",
+  },
+  variation: {
+    title: "Make Variations",
+    description: "Optionally steer the variation",
+    placeholder: "Warmer colors (optional)",
+  },
+};
+
+export const ImageGenerationDialog = ({
+  open,
+  onOpenChange,
+  userId,
+  source,
+  isGenerating,
+  onGenerate,
+}: ImageGenerationDialogProps) => {
+  const [prompt, setPrompt] = useState("");
+  const [style, setStyle] = useState("");
+  const [negativePrompt, setNegativePrompt] = useState("");
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(DEFAULT_ASPECT_RATIO);
+  const [count, setCount] = useState(1);
+  const [savedPresets, setSavedPresets] = useState<ImageStylePreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const mode = source?.mode ?? "generate";
+  const copy = COPY[mode];
+  const presets = [...BUILT_IN_STYLE_PRESETS, ...savedPresets];
+
+  // Options carry over between generations; only the prompt starts fresh
+  useEffect(() => {
+    if (!open) return;
+    setPrompt("");
+    setPresetName(null);
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || !userId) return;
+
+    const loadPresets = async () => {
+      const { data, error } = await supabase
+        .from("image_style_presets")
+        .select("id, name, style_prompt, negative_prompt, aspect_ratio")
+        .eq("user_id", userId)
+        .order("name", { ascending: true });
+
+      if (error) {
+        console.error("Error loading style presets:", error);
+        return;
+      }
+
+      setSavedPresets((data || []) as ImageStylePreset[]);
+    };
+
+    loadPresets();
+  }, [open, userId]);
+
+  const applyPreset = (value: string) => {
+    const preset = presets.find(p => p.id === value);
+    setSelectedPresetId(preset?.id ?? null);
+    setStyle(preset?.style_prompt ?? "");
+    setNegativePrompt(preset?.negative_prompt ?? "");
+    if (preset?.aspect_ratio) setAspectRatio(preset.aspect_ratio);
+  };
+
+  const savePreset = async () => {
+    const name = presetName?.trim();
+    if (!userId || !name) return;
+
+    const { data, error } = await supabase
+      .from("image_style_presets")
+      .insert({
+        user_id: userId,
+        name: name.slice(0, 50),
+        style_prompt: style.trim(),
+        negative_prompt: negativePrompt.trim() || null,
+        aspect_ratio: aspectRatio,
+      })
+      .select("id, name, style_prompt, negative_prompt, aspect_ratio")
+      .single();
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save preset",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavedPresets(prev => [...prev, data as ImageStylePreset].sort((a, b) => a.name.localeCompare(b.name)));
+    setSelectedPresetId(data.id);
+    setPresetName(null);
+    toast({ title: "Preset saved" });
+  };
+
+  const deletePreset = async (presetId: string) => {
+    const { error } = await supabase.from("image_style_presets").delete().eq("id", presetId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete preset",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSavedPresets(prev => prev.filter(p => p.id !== presetId));
+    setSelectedPresetId(null);
+  };
+
+  const canGenerate = (prompt.trim() !== "" || mode === "variation") && !isGenerating;
+
+  const submit = () => {
+    if (!canGenerate) return;
+    onGenerate({
+      prompt: prompt.trim(),
+      style: style.trim(),
+      negativePrompt: negativePrompt.trim(),
+      aspectRatio,
+      count,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isGenerating && onOpenChange(next)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-gradient-primary flex items-center justify-center">
+              <Wand2 className="w-5 h-5 text-primary-foreground" />
+            </div>
+            <div className="text-left">
+              <DialogTitle>{copy.title}</DialogTitle>
+              <DialogDescription>{copy.description}</DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {source?.storagePath ? (
+            <div className="max-w-[12rem] mx-auto rounded-lg overflow-hidden border border-border">
+              <StorageImage path={source.storagePath} alt="Source image" className="max-h-40 mx-auto" />
+            </div>
+          ) : source?.url && (
+            <img
+              src={source.url}
+              alt="Source image"
+              className="max-h-40 rounded-lg border border-border mx-auto"
+            />
+          )}
+
+          <Textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder={copy.placeholder}
+            className="min-h-[100px]"
+            autoFocus
+          />
+
+          <div className="space-y-2">
+            <Label>Style preset</Label>
+            <div className="flex gap-2">
+              <Select value={selectedPresetId ?? "none"} onValueChange={applyPreset}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No preset</SelectItem>
+                  <SelectGroup>
+                    <SelectLabel>Built-in</SelectLabel>
+                    {BUILT_IN_STYLE_PRESETS.map((preset) => (
+                      <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                  {savedPresets.length > 0 && (
+                    <SelectGroup>
+                      <SelectLabel>Saved</SelectLabel>
+                      {savedPresets.map((preset) => (
+                        <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                      ))}
+                    </SelectGroup>
+                  )}
+                </SelectContent>
+              </Select>
+              {selectedPresetId && !isBuiltInPreset(selectedPresetId) && (
+                <Button variant="outline" size="icon" onClick={() => deletePreset(selectedPresetId)} title="Delete preset">
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setPresetName(presetName === null ? "" : null)}
+                disabled={!style.trim() && !negativePrompt.trim()}
+                title="Save as preset"
+              >
+                <Bookmark className="w-4 h-4" />
+              </Button>
+            </div>
+            {presetName !== null && (
+              <div className="flex gap-2">
+                <Input
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && savePreset()}
+                  placeholder="Preset name"
+                  maxLength={50}
+                  autoFocus
+                />
+                <Button onClick={savePreset} disabled={!presetName.trim()}>
+                  Save
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="image-style">Style</Label>
+            <Input
+              id="image-style"
+              value={style}
+              onChange={(e) => setStyle(e.target.value)}
+              placeholder="e.g. cinematic lighting, oil painting"
+              maxLength={MAX_STYLE_LENGTH}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="image-negative-prompt">Negative prompt</Label>
+            <Input
+              id="image-negative-prompt"
+              value={negativePrompt}
+              onChange={(e) => setNegativePrompt(e.target.value)}
+              placeholder="Things to leave out, e.g. text, blur"
+              maxLength={MAX_STYLE_LENGTH}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {mode !== "edit" && (
+              <div className="space-y-2">
+                <Label>Aspect ratio</Label>
+                <Select value={aspectRatio} onValueChange={(value) => setAspectRatio(value as AspectRatio)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ASPECT_RATIOS.map((ratio) => (
+                      <SelectItem key={ratio.id} value={ratio.id}>{ratio.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Images</Label>
+              <Select value={String(count)} onValueChange={(value) => setCount(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: MAX_IMAGE_COUNT }, (_, i) => i + 1).map((n) => (
+                    <SelectItem key={n} value={String(n)}>{n === 1 ? "1 image" : `${n} images`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isGenerating}>
+            Cancel
+          </Button>
+          <Button onClick={submit} disabled={!canGenerate} className="bg-gradient-primary">
+            {isGenerating ? "Generating..." : "Generate"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
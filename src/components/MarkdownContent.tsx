@@ -0,0 +1,166 @@
+import { Fragment, useMemo, type ReactNode } from "react";
+import { parseMarkdown, type BlockNode, type InlineNode, type ListItem } from "@/lib/markdown";
+
+export interface MarkdownRenderers {
+  // `isOpen` is true while the fence hasn't been closed yet
+  code: (code: string, language: string, isOpen: boolean, key: string) => ReactNode;
+  image: (src: string, alt: string, key: string) => ReactNode;
+  video: (src: string, key: string) => ReactNode;
+}
+
+interface MarkdownContentProps {
+  content: string;
+  renderers: MarkdownRenderers;
+}
+
+const HEADING_CLASSES = [
+  "text-2xl font-bold",
+  "text-xl font-bold",
+  "text-lg font-semibold",
+  "text-base font-semibold",
+  "text-sm font-semibold",
+  "text-sm font-semibold text-muted-foreground",
+];
+
+const ALIGN_CLASSES = { left: "text-left", center: "text-center", right: "text-right" };
+
+const renderInline = (nodes: InlineNode[], renderers: MarkdownRenderers, keyPrefix: string): ReactNode[] =>
+  nodes.map((node, index) => {
+    const key = `${keyPrefix}-${index}`;
+    switch (node.type) {
+      case "text":
+        return <Fragment key={key}>{node.text}</Fragment>;
+      case "code":
+        return (
+          <code key={key} className="rounded bg-muted px-1.5 py-0.5 font-mono text-[0.85em]">
+            {node.text}
+          </code>
+        );
+      case "break":
+        return <br key={key} />;
+      case "strong":
+        return <strong key={key} className="font-semibold">{renderInline(node.children, renderers, key)}</strong>;
+      case "emphasis":
+        return <em key={key}>{renderInline(node.children, renderers, key)}</em>;
+      case "strike":
+        return <del key={key}>{renderInline(node.children, renderers, key)}</del>;
+      case "html": {
+        // Only tags from ALLOWED_HTML_TAGS reach here, and they are rebuilt without attributes
+        const Tag = node.tag as keyof JSX.IntrinsicElements;
+        return <Tag key={key}>{renderInline(node.children, renderers, key)}</Tag>;
+      }
+      case "link":
+        return (
+          <a
+            key={key}
+            href={node.href}
+            title={node.title ?? undefined}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-primary underline underline-offset-2 hover:opacity-80"
+          >
+            {renderInline(node.children, renderers, key)}
+          </a>
+        );
+      case "image":
+        return renderers.image(node.src, node.alt || "Image", key);
+    }
+  });
+
+const renderListItem = (item: ListItem, renderers: MarkdownRenderers, key: string) => (
+  <li key={key} className={item.checked !== null ? "list-none -ml-5 flex gap-2" : undefined}>
+    {item.checked !== null && (
+      <input type="checkbox" checked={item.checked} readOnly disabled className="mt-1.5 accent-primary" />
+    )}
+    <div className="space-y-2 min-w-0">{renderBlocks(item.children, renderers, key)}</div>
+  </li>
+);
+
+const renderBlocks = (blocks: BlockNode[], renderers: MarkdownRenderers, keyPrefix: string): ReactNode[] =>
+  blocks.map((block, index) => {
+    const key = `${keyPrefix}-${index}`;
+    switch (block.type) {
+      case "paragraph": {
+        // Images render as blocks with their own controls, which can't sit inside a <p>
+        const Wrapper = block.children.some((child) => child.type === "image") ? "div" : "p";
+        return (
+          <Wrapper key={key} className="leading-relaxed break-words">
+            {renderInline(block.children, renderers, key)}
+          </Wrapper>
+        );
+      }
+      case "heading": {
+        const Tag = `h${block.level}` as keyof JSX.IntrinsicElements;
+        return (
+          <Tag key={key} className={HEADING_CLASSES[block.level - 1]}>
+            {renderInline(block.children, renderers, key)}
+          </Tag>
+        );
+      }
+      case "code":
+        return renderers.code(block.code, block.language, !block.closed, key);
+      case "blockquote":
+        return (
+          <blockquote key={key} className="border-l-4 border-border pl-4 text-muted-foreground space-y-2">
+            {renderBlocks(block.children, renderers, key)}
+          </blockquote>
+        );
+      case "list": {
+        const items = block.items.map((item, itemIndex) => renderListItem(item, renderers, `${key}-${itemIndex}`));
+        return block.ordered ? (
+          <ol key={key} start={block.start} className="list-decimal pl-6 space-y-1">
+            {items}
+          </ol>
+        ) : (
+          <ul key={key} className="list-disc pl-6 space-y-1">
+            {items}
+          </ul>
+        );
+      }
+      case "table":
+        return (
+          <div key={key} className="overflow-x-auto rounded-lg border border-border">
+            <table className="w-full text-sm border-collapse">
+              <thead className="bg-muted/50">
+                <tr>
+                  {block.header.map((cell, column) => (
+                    <th
+                      key={column}
+                      className={`px-3 py-2 font-semibold border-b border-border ${ALIGN_CLASSES[block.align[column] ?? "left"]}`}
+                    >
+                      {renderInline(cell, renderers, `${key}-h${column}`)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-b border-border last:border-0">
+                    {row.map((cell, column) => (
+                      <td key={column} className={`px-3 py-2 align-top ${ALIGN_CLASSES[block.align[column] ?? "left"]}`}>
+                        {renderInline(cell, renderers, `${key}-${rowIndex}-${column}`)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      case "rule":
+        return <hr key={key} className="border-border" />;
+      case "video":
+        return renderers.video(block.src, key);
+    }
+  });
+
+/**
+ * Renders a reply's markdown as React elements, so nothing from the model is
+ * ever injected as HTML. Parsing is cached per block, which keeps re-rendering
+ * a streaming reply proportional to the part that changed.
+ */
+export const MarkdownContent = ({ content, renderers }: MarkdownContentProps) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return <div className="space-y-3">{renderBlocks(blocks, renderers, "md")}</div>;
+};
@@ -0,0 +1,43 @@
+import { FileText } from "lucide-react";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import type { ChatCitation } from "@/lib/chatStream";
+
+interface MessageCitationsProps {
+  citations: ChatCitation[] | null | undefined;
+  content: string;
+  onOpen: (citation: ChatCitation) => void;
+}
+
+// Only sources the reply refers to as [n] are listed, which also works while it streams
+export const MessageCitations = ({ citations, content, onOpen }: MessageCitationsProps) => {
+  const cited = (citations || []).filter((c) => content.includes(`[${c.index}]`));
+  if (cited.length === 0) return null;
+
+  return (
+    <div className="mt-3 pt-3 border-t border-border space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">Sources</p>
+      <TooltipProvider>
+        <div className="flex flex-wrap gap-1.5">
+          {cited.map((citation) => (
+            <Tooltip key={citation.index}>
+              <TooltipTrigger asChild>
+                <button
+                  onClick={() => onOpen(citation)}
+                  className="flex items-center gap-1.5 max-w-[16rem] px-2 py-1 rounded-md border border-border bg-secondary/50 hover:bg-secondary text-xs transition-colors"
+                >
+                  <span className="font-medium tabular-nums">[{citation.index}]</span>
+                  <FileText className="w-3 h-3 flex-shrink-0 text-muted-foreground" />
+                  <span className="truncate">{citation.file_name}</span>
+                  <span className="text-muted-foreground flex-shrink-0">§{citation.chunk_index + 1}</span>
+                </button>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-sm">
+                <p className="text-xs whitespace-pre-wrap line-clamp-6">{citation.excerpt}</p>
+              </TooltipContent>
+            </Tooltip>
+          ))}
+        </div>
+      </TooltipProvider>
+    </div>
+  );
+};
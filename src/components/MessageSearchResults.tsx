@@ -0,0 +1,54 @@
+import { MessageSquare } from "lucide-react";
+
+export interface MessageSearchResult {
+  message_id: string;
+  conversation_id: string;
+  conversation_title: string;
+  role: string;
+  snippet: string;
+  created_at: string;
+}
+
+interface MessageSearchResultsProps {
+  results: MessageSearchResult[];
+  isSearching: boolean;
+  onSelect: (result: MessageSearchResult) => void;
+}
+
+// search_messages wraps matched terms in <mark> tags; render them as elements rather than HTML
+const renderSnippet = (snippet: string) =>
+  snippet.split(/(<mark>[\s\S]*?<\/mark>)/g).map((part, i) =>
+    part.startsWith("<mark>") ? (
+      <mark key={i} className="bg-primary/30 text-foreground rounded px-0.5">
+        {part.slice(6, -7)}
+      </mark>
+    ) : (
+      <span key={i}>{part}</span>
+    )
+  );
+
+export const MessageSearchResults = ({ results, isSearching, onSelect }: MessageSearchResultsProps) => {
+  return (
+    <div className="mt-4">
+      <p className="px-1 py-2 text-xs font-medium text-muted-foreground">
+        {isSearching ? "Searching messages..." : `Messages (${results.length})`}
+      </p>
+      {results.map((result) => (
+        <button
+          key={result.message_id}
+          onClick={() => onSelect(result)}
+          className="w-full text-left p-3 rounded-lg mb-2 hover:bg-secondary/50 transition-colors"
+        >
+          <div className="flex items-center gap-1.5 text-xs text-muted-foreground mb-1">
+            <MessageSquare className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate">{result.conversation_title}</span>
+          </div>
+          <p className="text-sm line-clamp-3 break-words">{renderSnippet(result.snippet)}</p>
+        </button>
+      ))}
+      {!isSearching && results.length === 0 && (
+        <p className="text-center text-xs text-muted-foreground">No matching messages</p>
+      )}
+    </div>
+  );
+};
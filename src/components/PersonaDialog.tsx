@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Slider } from "@/components/ui/slider";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { DEFAULT_MODEL, MODEL_OPTIONS } from "@/lib/models";
+
+export interface Persona {
+  id: string;
+  name: string;
+  system_prompt: string;
+  default_model: string;
+  temperature: number;
+}
+
+interface PersonaDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  persona: Persona | null;
+  onSaved: (persona: Persona) => void;
+  onDeleted: (personaId: string) => void;
+}
+
+const personaSchema = z.object({
+  name: z.string().trim().min(1, "Name cannot be empty").max(50, "Name must be less than 50 characters"),
+  system_prompt: z.string().trim().min(1, "System prompt cannot be empty").max(4000, "System prompt must be less than 4000 characters"),
+});
+
+export const PersonaDialog = ({ open, onOpenChange, userId, persona, onSaved, onDeleted }: PersonaDialogProps) => {
+  const [name, setName] = useState("");
+  const [systemPrompt, setSystemPrompt] = useState("");
+  const [defaultModel, setDefaultModel] = useState(DEFAULT_MODEL);
+  const [temperature, setTemperature] = useState(1);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName(persona?.name ?? "");
+    setSystemPrompt(persona?.system_prompt ?? "");
+    setDefaultModel(persona?.default_model ?? DEFAULT_MODEL);
+    setTemperature(persona ? Number(persona.temperature) : 1);
+  }, [open, persona]);
+
+  const handleSave = async () => {
+    const result = personaSchema.safeParse({ name, system_prompt: systemPrompt });
+    if (!result.success) {
+      toast({
+        title: "Validation Error",
+        description: result.error.errors[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const values = {
+      name: result.data.name,
+      system_prompt: result.data.system_prompt,
+      default_model: defaultModel,
+      temperature,
+    };
+
+    const { data, error } = persona
+      ? await supabase.from("personas").update(values).eq("id", persona.id).select().single()
+      : await supabase.from("personas").insert({ ...values, user_id: userId }).select().single();
+
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save persona",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: persona ? "Persona updated" : "Persona created" });
+    onSaved(data as Persona);
+    onOpenChange(false);
+  };
+
+  const handleDelete = async () => {
+    if (!persona) return;
+
+    setSaving(true);
+    const { error } = await supabase.from("personas").delete().eq("id", persona.id);
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete persona",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Persona deleted" });
+    onDeleted(persona.id);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{persona ? "Edit Persona" : "New Persona"}</DialogTitle>
+          <DialogDescription>
+            Personas change how Tvog AI responds in conversations started with them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="persona-name">Name</Label>
+            <Input
+              id="persona-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Code Reviewer"
+              maxLength={50}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="persona-prompt">System Prompt</Label>
+            <Textarea
+              id="persona-prompt"
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              placeholder="You are a meticulous senior engineer who reviews code for bugs and readability..."
+              className="min-h-[140px]"
+              maxLength={4000}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Default Model</Label>
+            <Select value={defaultModel} onValueChange={setDefaultModel}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MODEL_OPTIONS.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Temperature</Label>
+              <span className="text-sm text-muted-foreground">{temperature.toFixed(1)}</span>
+            </div>
+            <Slider
+              value={[temperature]}
+              onValueChange={([value]) => setTemperature(value)}
+              min={0}
+              max={2}
+              step={0.1}
+            />
+            <p className="text-xs text-muted-foreground">Lower is more focused, higher is more creative.</p>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {persona && (
+            <Button variant="destructive" onClick={handleDelete} disabled={saving} className="sm:mr-auto">
+              Delete
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving} className="bg-gradient-primary hover:opacity-90">
+            {saving ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
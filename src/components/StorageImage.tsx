@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import { ImageOff } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { getSignedUrl } from "@/lib/signedUrls";
+
+interface StorageImageProps {
+  path: string;
+  alt: string;
+  className?: string;
+}
+
+/** Image from the private chat-files bucket, rendered through a signed URL */
+export const StorageImage = ({ path, alt, className }: StorageImageProps) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSrc(null);
+    setFailed(false);
+
+    getSignedUrl(path).then((url) => {
+      if (cancelled) return;
+      if (url) setSrc(url);
+      else setFailed(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  if (failed) {
+    return (
+      <div className="flex items-center justify-center gap-2 h-32 text-sm text-muted-foreground bg-secondary/50">
+        <ImageOff className="w-4 h-4" />
+        Image unavailable
+      </div>
+    );
+  }
+
+  if (!src) return <Skeleton className="h-48 w-full" />;
+
+  return <img src={src} alt={alt} className={className} loading="lazy" onError={() => setFailed(true)} />;
+};
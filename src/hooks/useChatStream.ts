@@ -0,0 +1,62 @@
+import { useState, useCallback, useRef, useEffect } from "react";
+import { streamChat, type ChatStreamEvent, type StreamChatResult } from "@/lib/chatStream";
+
+interface StartStreamOptions {
+  body: Record<string, unknown>;
+  onDelta?: (content: string) => void;
+  onEvent?: (event: ChatStreamEvent) => void;
+}
+
+interface UseChatStreamReturn {
+  isStreaming: boolean;
+  startStream: (options: StartStreamOptions) => Promise<StreamChatResult>;
+  stopStream: () => void;
+}
+
+export const useChatStream = (): UseChatStreamReturn => {
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Don't leave a request running after the page unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const startStream = useCallback(async ({ body, onDelta, onEvent }: StartStreamOptions) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsStreaming(true);
+
+    let content = "";
+
+    try {
+      return await streamChat({
+        body,
+        signal: controller.signal,
+        onEvent: (event) => {
+          if (event.type === "delta") {
+            content += event.content;
+            onDelta?.(content);
+          }
+          onEvent?.(event);
+        },
+      });
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+  }, []);
+
+  const stopStream = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  return {
+    isStreaming,
+    startStream,
+    stopStream,
+  };
+};
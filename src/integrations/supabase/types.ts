@@ -16,31 +16,370 @@ export type Database = {
     Tables: {
       conversations: {
         Row: {
+          archived_at: string | null
+          collection_id: string | null
           created_at: string
           id: string
+          model: string
+          persona_id: string | null
+          pinned: boolean
+          summarized_through_id: string | null
+          summary: string | null
           title: string
           updated_at: string
           user_id: string
         }
         Insert: {
+          archived_at?: string | null
+          collection_id?: string | null
           created_at?: string
           id?: string
+          model?: string
+          persona_id?: string | null
+          pinned?: boolean
+          summarized_through_id?: string | null
+          summary?: string | null
           title?: string
           updated_at?: string
           user_id: string
         }
         Update: {
+          archived_at?: string | null
+          collection_id?: string | null
           created_at?: string
           id?: string
+          model?: string
+          persona_id?: string | null
+          pinned?: boolean
+          summarized_through_id?: string | null
+          summary?: string | null
           title?: string
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_persona_id_fkey"
+            columns: ["persona_id"]
+            isOneToOne: false
+            referencedRelation: "personas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_summarized_through_id_fkey"
+            columns: ["summarized_through_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_chunks: {
+        Row: {
+          attachment_id: string | null
+          chunk_index: number
+          content: string
+          conversation_id: string
+          created_at: string
+          embedding: string
+          file_name: string
+          id: string
+          storage_path: string
+        }
+        Insert: {
+          attachment_id?: string | null
+          chunk_index: number
+          content: string
+          conversation_id: string
+          created_at?: string
+          embedding: string
+          file_name: string
+          id?: string
+          storage_path: string
+        }
+        Update: {
+          attachment_id?: string | null
+          chunk_index?: number
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          embedding?: string
+          file_name?: string
+          id?: string
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_chunks_attachment_id_fkey"
+            columns: ["attachment_id"]
+            isOneToOne: false
+            referencedRelation: "message_attachments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_chunks_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      image_style_presets: {
+        Row: {
+          aspect_ratio: string | null
+          created_at: string
+          id: string
+          name: string
+          negative_prompt: string | null
+          style_prompt: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          aspect_ratio?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          negative_prompt?: string | null
+          style_prompt?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          aspect_ratio?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          negative_prompt?: string | null
+          style_prompt?: string
+          updated_at?: string
+          user_id?: string
+        }
         Relationships: []
       }
+      knowledge_chunks: {
+        Row: {
+          chunk_index: number
+          collection_id: string
+          content: string
+          created_at: string
+          document_id: string
+          embedding: string
+          id: string
+        }
+        Insert: {
+          chunk_index: number
+          collection_id: string
+          content: string
+          created_at?: string
+          document_id: string
+          embedding: string
+          id?: string
+        }
+        Update: {
+          chunk_index?: number
+          collection_id?: string
+          content?: string
+          created_at?: string
+          document_id?: string
+          embedding?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "knowledge_chunks_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "knowledge_chunks_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      knowledge_collections: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      knowledge_documents: {
+        Row: {
+          chunk_count: number
+          collection_id: string
+          created_at: string
+          error: string | null
+          file_name: string
+          file_size: number | null
+          file_type: string | null
+          id: string
+          status: string
+          storage_path: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          chunk_count?: number
+          collection_id: string
+          created_at?: string
+          error?: string | null
+          file_name: string
+          file_size?: number | null
+          file_type?: string | null
+          id?: string
+          status?: string
+          storage_path: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          chunk_count?: number
+          collection_id?: string
+          created_at?: string
+          error?: string | null
+          file_name?: string
+          file_size?: number | null
+          file_type?: string | null
+          id?: string
+          status?: string
+          storage_path?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "knowledge_documents_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "knowledge_collections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_attachments: {
+        Row: {
+          created_at: string
+          extracted_text: string | null
+          file_name: string
+          file_size: number | null
+          file_type: string | null
+          id: string
+          message_id: string
+          position: number
+          storage_path: string
+        }
+        Insert: {
+          created_at?: string
+          extracted_text?: string | null
+          file_name: string
+          file_size?: number | null
+          file_type?: string | null
+          id?: string
+          message_id: string
+          position?: number
+          storage_path: string
+        }
+        Update: {
+          created_at?: string
+          extracted_text?: string | null
+          file_name?: string
+          file_size?: number | null
+          file_type?: string | null
+          id?: string
+          message_id?: string
+          position?: number
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_attachments_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_feedback: {
+        Row: {
+          category: string | null
+          created_at: string
+          id: string
+          message_id: string
+          rating: string
+          reason: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          id?: string
+          message_id: string
+          rating: string
+          reason?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          id?: string
+          message_id?: string
+          rating?: string
+          reason?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_feedback_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
+          citations: Json | null
           content: string
+          content_tsv: unknown | null
           conversation_id: string
           created_at: string
           file_name: string | null
@@ -48,9 +387,12 @@ export type Database = {
           file_type: string | null
           file_url: string | null
           id: string
+          parent_id: string | null
           role: string
+          source_message_id: string | null
         }
         Insert: {
+          citations?: Json | null
           content: string
           conversation_id: string
           created_at?: string
@@ -59,9 +401,12 @@ export type Database = {
           file_type?: string | null
           file_url?: string | null
           id?: string
+          parent_id?: string | null
           role: string
+          source_message_id?: string | null
         }
         Update: {
+          citations?: Json | null
           content?: string
           conversation_id?: string
           created_at?: string
@@ -70,7 +415,9 @@ export type Database = {
           file_type?: string | null
           file_url?: string | null
           id?: string
+          parent_id?: string | null
           role?: string
+          source_message_id?: string | null
         }
         Relationships: [
           {
@@ -80,8 +427,55 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_source_message_id_fkey"
+            columns: ["source_message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      personas: {
+        Row: {
+          created_at: string
+          default_model: string
+          id: string
+          name: string
+          system_prompt: string
+          temperature: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          default_model?: string
+          id?: string
+          name: string
+          system_prompt: string
+          temperature?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          default_model?: string
+          id?: string
+          name?: string
+          system_prompt?: string
+          temperature?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -109,12 +503,172 @@ export type Database = {
         }
         Relationships: []
       }
+      rate_limit_events: {
+        Row: {
+          created_at: string
+          feature: string
+          id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          feature: string
+          id?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          feature?: string
+          id?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      usage_events: {
+        Row: {
+          completion_tokens: number
+          conversation_id: string | null
+          created_at: string
+          feature: string
+          id: string
+          model: string
+          prompt_tokens: number
+          total_tokens: number
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number
+          conversation_id?: string | null
+          created_at?: string
+          feature: string
+          id?: string
+          model: string
+          prompt_tokens?: number
+          total_tokens?: number
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number
+          conversation_id?: string | null
+          created_at?: string
+          feature?: string
+          id?: string
+          model?: string
+          prompt_tokens?: number
+          total_tokens?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_events_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      message_feedback_history: {
+        Row: {
+          category: string | null
+          conversation_id: string | null
+          conversation_title: string | null
+          created_at: string | null
+          id: string | null
+          message_content: string | null
+          message_id: string | null
+          rating: string | null
+          reason: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_feedback_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      check_rate_limit: {
+        Args: {
+          p_cost?: number
+          p_daily_quota: number
+          p_feature: string
+          p_max_requests: number
+          p_window_seconds: number
+        }
+        Returns: {
+          allowed: boolean
+          reason: string
+          remaining: number
+          request_limit: number
+          retry_after: number
+        }[]
+      }
       delete_expired_accounts: { Args: never; Returns: undefined }
+      get_daily_usage: {
+        Args: { days?: number }
+        Returns: {
+          completion_tokens: number
+          day: string
+          feature: string
+          model: string
+          prompt_tokens: number
+          requests: number
+          total_tokens: number
+        }[]
+      }
+      match_document_chunks: {
+        Args: {
+          match_count?: number
+          query_embedding: string
+          target_conversation_id: string
+        }
+        Returns: {
+          attachment_id: string
+          chunk_index: number
+          content: string
+          file_name: string
+          id: string
+          similarity: number
+          storage_path: string
+        }[]
+      }
+      match_knowledge_chunks: {
+        Args: {
+          match_count?: number
+          query_embedding: string
+          target_collection_id: string
+        }
+        Returns: {
+          chunk_index: number
+          content: string
+          document_id: string
+          file_name: string
+          id: string
+          similarity: number
+          storage_path: string
+        }[]
+      }
+      search_messages: {
+        Args: { result_limit?: number; search_query: string }
+        Returns: {
+          conversation_id: string
+          conversation_title: string
+          created_at: string
+          message_id: string
+          rank: number
+          role: string
+          snippet: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { strFromU8, unzipSync } from "fflate";
+import { buildArtifactPreview, createArtifactZip, extractArtifactFiles } from "@/lib/artifacts";
+
+const fence = (info: string, code: string, marker = "```") => `${marker}${info}\n${code}\n${marker}`;
+
+describe("extractArtifactFiles", () => {
+  it("names files from the info string, the line above and a leading comment", () => {
+    const reply = [
+      fence("html index.html", "<h1>Hi</h1>"),
+      "And the styles, in **`styles/main.css`**:",
+      fence("css", "h1 { color: red; }"),
+      fence("js", "// file: app.js\nconsole.log(1);"),
+      fence('ts title="src/util.ts"', "export const x = 1;"),
+    ].join("\n\n");
+
+    expect(extractArtifactFiles(reply).map(({ name, language }) => [name, language])).toEqual([
+      ["index.html", "html"],
+      ["styles/main.css", "css"],
+      ["app.js", "js"],
+      ["src/util.ts", "ts"],
+    ]);
+  });
+
+  it("falls back to default names for unnamed web blocks", () => {
+    const reply = [fence("html", "<p>x</p>"), fence("css", "p {}"), fence("javascript", "go()")].join("\n\n");
+    expect(extractArtifactFiles(reply).map((file) => file.name)).toEqual(["index.html", "styles.css", "script.js"]);
+  });
+
+  it("needs at least two files", () => {
+    expect(extractArtifactFiles(fence("html index.html", "<p>x</p>"))).toEqual([]);
+  });
+
+  it("lets a later block with the same name replace the earlier one", () => {
+    const reply = [fence("js app.js", "v1()"), fence("js app.js", "v2()"), fence("css app.css", "")].join("\n\n");
+    expect(extractArtifactFiles(reply).find((file) => file.name === "app.js")?.content).toBe("v2()");
+  });
+
+  it.each(["../evil.js", "/etc/cron.js", "a/../../evil.js", "a//b.js", "./../evil.js"])(
+    "doesn't use the unsafe name %s",
+    (name) => {
+      const reply = [fence(`js ${name}`, "pwn()"), fence("html", "<p>x</p>"), fence("css", "p {}")].join("\n\n");
+      expect(extractArtifactFiles(reply).map((file) => file.name)).toEqual(["script.js", "index.html", "styles.css"]);
+    }
+  );
+
+  it("strips a leading ./ from names", () => {
+    const reply = [fence("js ./app.js", "a()"), fence("css ./app.css", "")].join("\n\n");
+    expect(extractArtifactFiles(reply).map((file) => file.name)).toEqual(["app.js", "app.css"]);
+  });
+
+  it("finds blocks the way the markdown renderer does", () => {
+    const reply = [
+      // A longer fence wrapping a shorter one is one block, as in the rendered message
+      fence("md README.md", fence("js", "inner()"), "````"),
+      fence("css main.css", "body {}", "~~~"),
+      "```js```",
+    ].join("\n\n");
+
+    const files = extractArtifactFiles(reply);
+    expect(files.map((file) => file.name)).toEqual(["README.md", "main.css"]);
+    expect(files[0].content).toBe("```js\ninner()\n```");
+  });
+
+  it("leaves out a block that is still streaming in", () => {
+    const reply = `${fence("html index.html", "<p>x</p>")}\n\n${fence("css a.css", "p {}")}\n\n\`\`\`js b.js\nconsole.`;
+    expect(extractArtifactFiles(reply).map((file) => file.name)).toEqual(["index.html", "a.css"]);
+  });
+});
+
+describe("createArtifactZip", () => {
+  it("stores every file under its path", async () => {
+    const blob = createArtifactZip([
+      { name: "index.html", language: "html", content: "<p>héllo</p>" },
+      { name: "src/app.js", language: "js", content: "run();" },
+    ]);
+    const entries = unzipSync(new Uint8Array(await blob.arrayBuffer()));
+
+    expect(Object.keys(entries)).toEqual(["index.html", "src/app.js"]);
+    expect(strFromU8(entries["index.html"])).toBe("<p>héllo</p>");
+    expect(strFromU8(entries["src/app.js"])).toBe("run();");
+  });
+
+  it("refuses names that would escape the extraction folder", () => {
+    expect(() => createArtifactZip([{ name: "../x.js", language: "js", content: "" }])).toThrow("Unsafe file name");
+  });
+});
+
+describe("buildArtifactPreview", () => {
+  it("inlines linked stylesheets and scripts in place", () => {
+    const html = buildArtifactPreview([
+      { name: "index.html", language: "html", content: '<head><link rel="stylesheet" href="./a.css"></head><body><script src="a.js"></script></body>' },
+      { name: "a.css", language: "css", content: "p {}" },
+      { name: "a.js", language: "js", content: "x('</script>')" },
+    ]);
+
+    expect(html).toBe("<head><style>\np {}\n</style></head><body><script>\nx('<\\/script>')\n</script></body>");
+  });
+});
@@ -0,0 +1,177 @@
+import { strToU8, zipSync } from "fflate";
+import { findCodeFences } from "@/lib/markdown";
+
+export interface ArtifactFile {
+  name: string;
+  language: string;
+  content: string;
+}
+
+const FILE_NAME_REGEX = /^(?:\.?\/)?[\w.-]+(?:\/[\w.-]+)*\.[A-Za-z0-9]+$/;
+const META_NAME_REGEX = /(?:title|file(?:name)?)\s*=\s*"?([^"\s]+)"?/i;
+// Name wrapped in backticks or bold in the line just above the fence
+const MENTIONED_NAME_REGEX = /(?:`|\*\*)((?:\.?\/)?[\w.-]+(?:\/[\w.-]+)*\.[A-Za-z0-9]+)(?:`|\*\*)/g;
+// First line of the block being a comment that only holds the name
+const COMMENT_NAME_REGEX = /^\s*(?:\/\/|#|--|\/\*|<!--)\s*(?:file(?:name)?:\s*)?((?:\.?\/)?[\w.-]+(?:\/[\w.-]+)*\.[A-Za-z0-9]+)\s*(?:\*\/|-->)?\s*$/i;
+
+// Unnamed web blocks still belong together, under the names a page would use
+const DEFAULT_NAMES: Record<string, string> = {
+  html: "index.html",
+  css: "styles.css",
+  javascript: "script.js",
+  js: "script.js",
+};
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  html: "html",
+  htm: "html",
+  css: "css",
+  js: "javascript",
+  mjs: "javascript",
+  jsx: "jsx",
+  ts: "typescript",
+  tsx: "tsx",
+  json: "json",
+  py: "python",
+  md: "markdown",
+  sql: "sql",
+  sh: "bash",
+  yml: "yaml",
+  yaml: "yaml",
+};
+
+// Relative paths only: no leading slash and no "." or ".." segments, so a name
+// can't point outside the folder the zip is extracted into
+const safeFileName = (name: string) => {
+  const cleaned = name.replace(/^\.\//, "");
+  const segments = cleaned.split("/");
+  return segments.every((segment) => segment !== "" && segment !== "." && segment !== "..") ? cleaned : null;
+};
+
+const extensionOf = (name: string) => name.slice(name.lastIndexOf(".") + 1).toLowerCase();
+
+const nameFromMeta = (meta: string) => {
+  const explicit = meta.match(META_NAME_REGEX)?.[1];
+  if (explicit) return explicit;
+  return meta.trim().split(/\s+/).find((word) => FILE_NAME_REGEX.test(word)) ?? null;
+};
+
+const nameFromPrecedingLine = (textBefore: string) => {
+  const line = textBefore.trimEnd().split("\n").pop() ?? "";
+  const bare = line
+    .replace(/^\s*(?:[-+]|\d+\.)\s+/, "")
+    .replace(/[#*`:>]/g, " ")
+    .replace(/^\s*file(?:name)?\s+/i, "")
+    .trim();
+  if (FILE_NAME_REGEX.test(bare)) return bare;
+
+  const mentioned = [...line.matchAll(MENTIONED_NAME_REGEX)].map((match) => match[1]);
+  return mentioned.length > 0 ? mentioned[mentioned.length - 1] : null;
+};
+
+/**
+ * Collects the code blocks of a reply that belong to one project, named from
+ * the fence info string, the line introducing the block, or a leading comment.
+ * A later block with the same name replaces the earlier one.
+ */
+export const extractArtifactFiles = (content: string): ArtifactFile[] => {
+  const files = new Map<string, ArtifactFile>();
+  const unnamed: { language: string; content: string }[] = [];
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+  let previousEnd = 0;
+
+  // Blocks still being streamed are left out until they close
+  for (const fence of findCodeFences(content).filter((f) => f.closed)) {
+    const { meta, code } = fence;
+    const name =
+      nameFromMeta(meta) ??
+      nameFromPrecedingLine(lines.slice(previousEnd, fence.start).join("\n")) ??
+      code.split("\n", 1)[0].match(COMMENT_NAME_REGEX)?.[1] ??
+      null;
+    previousEnd = fence.end;
+
+    const language = fence.language.toLowerCase();
+    const fileName = name ? safeFileName(name) : null;
+    if (fileName) {
+      files.set(fileName, {
+        name: fileName,
+        language: language || EXTENSION_LANGUAGES[extensionOf(fileName)] || "code",
+        content: code,
+      });
+    } else if (DEFAULT_NAMES[language]) {
+      unnamed.push({ language, content: code });
+    }
+  }
+
+  for (const block of unnamed) {
+    const name = DEFAULT_NAMES[block.language];
+    if (!files.has(name)) files.set(name, { name, ...block });
+  }
+
+  return files.size >= 2 ? [...files.values()] : [];
+};
+
+const isExtension = (file: ArtifactFile, extensions: string[]) => extensions.includes(extensionOf(file.name));
+
+export const hasArtifactPreview = (files: ArtifactFile[]) =>
+  files.some((file) => isExtension(file, ["html", "htm", "css", "js", "mjs"]));
+
+// Inlined sources can't close the tag they're placed in
+const escapeTag = (source: string, tag: string) => source.replace(new RegExp(`</(${tag})`, "gi"), "<\\/$1");
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Combines the files into one document for the preview frame: stylesheets and
+ * scripts the HTML links to are inlined in place, and any it doesn't mention
+ * are added at the end of the head and body.
+ */
+export const buildArtifactPreview = (files: ArtifactFile[]) => {
+  const page = files.find((file) => file.name === "index.html") ?? files.find((file) => isExtension(file, ["html", "htm"]));
+  const stylesheets = files.filter((file) => isExtension(file, ["css"]));
+  const scripts = files.filter((file) => isExtension(file, ["js", "mjs"]));
+
+  let html = page?.content ?? "<!DOCTYPE html>\n<html>\n<head>\n</head>\n<body>\n</body>\n</html>";
+  const extraStyles: string[] = [];
+  const extraScripts: string[] = [];
+
+  for (const file of stylesheets) {
+    const style = `<style>\n${escapeTag(file.content, "style")}\n</style>`;
+    const link = new RegExp(`<link\\b[^>]*href=["'](?:\\./)?${escapeRegex(file.name)}["'][^>]*>`, "i");
+    if (link.test(html)) html = html.replace(link, () => style);
+    else extraStyles.push(style);
+  }
+
+  for (const file of scripts) {
+    const inline = (module: boolean) =>
+      `<script${module ? ' type="module"' : ""}>\n${escapeTag(file.content, "script")}\n</script>`;
+    const tag = new RegExp(`<script\\b[^>]*src=["'](?:\\./)?${escapeRegex(file.name)}["'][^>]*>\\s*</script>`, "i");
+    if (tag.test(html)) html = html.replace(tag, (original) => inline(/type=["']module["']/i.test(original)));
+    else extraScripts.push(inline(extensionOf(file.name) === "mjs"));
+  }
+
+  if (extraStyles.length > 0) {
+    html = /<\/head>/i.test(html)
+      ? html.replace(/<\/head>/i, () => `${extraStyles.join("\n")}\n</head>`)
+      : `${extraStyles.join("\n")}\n${html}`;
+  }
+
+  if (extraScripts.length > 0) {
+    html = /<\/body>/i.test(html)
+      ? html.replace(/<\/body>/i, () => `${extraScripts.join("\n")}\n</body>`)
+      : `${html}\n${extraScripts.join("\n")}`;
+  }
+
+  return html;
+};
+
+/** Zips the files under their names, which extractArtifactFiles has already checked are relative */
+export const createArtifactZip = (files: ArtifactFile[]) => {
+  const entries: Record<string, Uint8Array> = {};
+  for (const file of files) {
+    const name = safeFileName(file.name);
+    if (!name) throw new Error(`Unsafe file name in zip: ${file.name}`);
+    entries[name] = strToU8(file.content);
+  }
+  return new Blob([zipSync(entries)], { type: "application/zip" });
+};
@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from "vitest";
+import recordedStream from "@/lib/__fixtures__/chat-stream.sse?raw";
+import recordedErrorStream from "@/lib/__fixtures__/chat-stream-error.sse?raw";
+import unterminatedStream from "@/lib/__fixtures__/chat-stream-unterminated.sse?raw";
+import { parseChatStreamData, readChatStream, type ChatStreamEvent } from "@/lib/chatStream";
+
+// The stream reader never calls an edge function; keep the Supabase client out of the test
+vi.mock("@/lib/edgeFunctions", () => ({}));
+
+// Serves the bytes of `text` in chunks of `size`, splitting lines and multi-byte characters
+const streamOf = (text: string, size = Infinity) => {
+  const bytes = new TextEncoder().encode(text);
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += size) controller.enqueue(bytes.slice(i, i + size));
+      controller.close();
+    },
+  });
+};
+
+const collect = async (body: ReadableStream<Uint8Array>) => {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of readChatStream(body)) events.push(event);
+  return events;
+};
+
+const replyOf = (events: ChatStreamEvent[]) =>
+  events.map((event) => (event.type === "delta" ? event.content : "")).join("");
+
+describe("readChatStream", () => {
+  it("yields citations, deltas, usage and done from a recorded stream", async () => {
+    const events = await collect(streamOf(recordedStream));
+
+    expect(events[0]).toMatchObject({ type: "citations", citations: [{ index: 1, file_name: "report.pdf" }] });
+    expect(replyOf(events)).toBe("Revenue grew 12% — café ☕ last year [1].");
+    expect(events).toContainEqual({
+      type: "usage",
+      usage: { prompt_tokens: 42, completion_tokens: 9, total_tokens: 51 },
+    });
+    expect(events[events.length - 1]).toEqual({ type: "done" });
+    expect(events.filter((event) => event.type === "done")).toHaveLength(1);
+  });
+
+  it("handles CRLF line endings", async () => {
+    const events = await collect(streamOf(recordedStream.replace(/\n/g, "\r\n")));
+    expect(events).toEqual(await collect(streamOf(recordedStream)));
+  });
+
+  it.each([1, 3, 7, 64])("reassembles events split into %i-byte chunks", async (size) => {
+    const events = await collect(streamOf(recordedStream, size));
+    expect(events).toEqual(await collect(streamOf(recordedStream)));
+  });
+
+  it("skips a malformed line and keeps reading", async () => {
+    const [first, ...rest] = recordedStream.split("\n\n");
+    const withBadLine = [first, "data: {\"choices\":[{\"delta\":{\"content\":", ...rest].join("\n\n");
+
+    const events = await collect(streamOf(withBadLine, 5));
+    expect(replyOf(events)).toBe("Revenue grew 12% — café ☕ last year [1].");
+    expect(events[events.length - 1]).toEqual({ type: "done" });
+  });
+
+  it("stops at [DONE] without reading what follows", async () => {
+    const trailing = `${recordedStream}data: {"choices":[{"delta":{"content":"after done"}}]}\n\n`;
+    const events = await collect(streamOf(trailing));
+    expect(replyOf(events)).not.toContain("after done");
+  });
+
+  it("ends with done when the stream closes without [DONE]", async () => {
+    const events = await collect(streamOf(recordedStream.replace("data: [DONE]\n", "")));
+    expect(events[events.length - 1]).toEqual({ type: "done" });
+  });
+
+  it.each([1, 4, Infinity])("reads a last line without a trailing newline in %s-byte chunks", async (size) => {
+    const events = await collect(streamOf(unterminatedStream, size));
+
+    expect(replyOf(events)).toBe("Almost there — fin");
+    expect(events.slice(-2)).toEqual([
+      { type: "usage", usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 } },
+      { type: "done" },
+    ]);
+  });
+
+  it("reports error events from the gateway", async () => {
+    const events = await collect(streamOf(recordedErrorStream));
+    expect(events).toEqual([
+      { type: "delta", content: "Partial" },
+      { type: "error", message: "Upstream stream interrupted" },
+      { type: "done" },
+    ]);
+  });
+});
+
+describe("parseChatStreamData", () => {
+  it("returns null for a payload that is not JSON", () => {
+    expect(parseChatStreamData("{\"choices\":")).toBeNull();
+  });
+
+  it("ignores empty deltas", () => {
+    expect(parseChatStreamData(JSON.stringify({ choices: [{ delta: { content: "" } }] }))).toEqual([]);
+  });
+});
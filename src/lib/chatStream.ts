@@ -0,0 +1,155 @@
+import { edgeFunctionUrl, getEdgeFunctionHeaders, readEdgeFunctionError } from "@/lib/edgeFunctions";
+
+export interface ChatStreamUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/** A document passage the reply may cite as [index] */
+export interface ChatCitation {
+  index: number;
+  attachment_id: string | null;
+  storage_path: string;
+  file_name: string;
+  chunk_index: number;
+  excerpt: string;
+}
+
+export type ChatStreamEvent =
+  | { type: "citations"; citations: ChatCitation[] }
+  | { type: "delta"; content: string }
+  | { type: "usage"; usage: ChatStreamUsage }
+  | { type: "error"; message: string }
+  | { type: "done" };
+
+export interface StreamChatOptions {
+  body: Record<string, unknown>;
+  signal?: AbortSignal;
+  onEvent?: (event: ChatStreamEvent) => void;
+}
+
+export interface StreamChatResult {
+  /** Id the chat function stores the reply under, from the X-Message-Id header */
+  messageId: string | null;
+  /** Last message folded into the conversation summary, from the X-Summarized-Through header */
+  summarizedThroughId: string | null;
+  content: string;
+  usage: ChatStreamUsage | null;
+  aborted: boolean;
+}
+
+/**
+ * Turns one `data: ` payload from the gateway into typed events.
+ * Returns null when the payload is not valid JSON.
+ */
+export const parseChatStreamData = (data: string): ChatStreamEvent[] | null => {
+  if (data === "[DONE]") return [{ type: "done" }];
+
+  let parsed;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return null;
+  }
+
+  const events: ChatStreamEvent[] = [];
+  if (Array.isArray(parsed.citations)) {
+    events.push({ type: "citations", citations: parsed.citations });
+  }
+  if (parsed.error) {
+    events.push({ type: "error", message: parsed.error.message || String(parsed.error) });
+  }
+  const content = parsed.choices?.[0]?.delta?.content;
+  if (content) {
+    events.push({ type: "delta", content });
+  }
+  if (parsed.usage) {
+    events.push({ type: "usage", usage: parsed.usage });
+  }
+  return events;
+};
+
+/**
+ * Reads an OpenAI-style SSE body and yields typed events until `[DONE]`
+ * or the end of the stream.
+ */
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      // At the end, flush the decoder and end the last line, which may have no trailing newline
+      buffer += done ? `${decoder.decode()}\n` : decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+        let line = buffer.slice(0, newlineIndex);
+        buffer = buffer.slice(newlineIndex + 1);
+
+        if (line.endsWith("\r")) line = line.slice(0, -1);
+        if (line.startsWith(":") || line.trim() === "") continue;
+        if (!line.startsWith("data: ")) continue;
+
+        const events = parseChatStreamData(line.slice(6).trim());
+        // Only complete lines reach here, so a bad one will never parse; skip it
+        if (events === null) continue;
+
+        for (const event of events) {
+          yield event;
+          if (event.type === "done") return;
+        }
+      }
+
+      if (done) break;
+    }
+    yield { type: "done" };
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Calls the `chat` edge function and streams the reply, reporting every
+ * event through `onEvent`. Aborting `signal` resolves with the partial reply.
+ */
+export const streamChat = async ({ body, signal, onEvent }: StreamChatOptions): Promise<StreamChatResult> => {
+  let messageId: string | null = null;
+  let summarizedThroughId: string | null = null;
+  let content = "";
+  let usage: ChatStreamUsage | null = null;
+
+  try {
+    const response = await fetch(edgeFunctionUrl("chat"), {
+      method: "POST",
+      headers: await getEdgeFunctionHeaders(),
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await readEdgeFunctionError(response, "Failed to get response");
+    }
+
+    if (!response.body) throw new Error("No response stream");
+    messageId = response.headers.get("X-Message-Id");
+    summarizedThroughId = response.headers.get("X-Summarized-Through");
+
+    for await (const event of readChatStream(response.body)) {
+      if (event.type === "delta") content += event.content;
+      if (event.type === "usage") usage = event.usage;
+      onEvent?.(event);
+      if (event.type === "error") throw new Error(event.message);
+    }
+
+    return { messageId, summarizedThroughId, content, usage, aborted: false };
+  } catch (error) {
+    if (signal?.aborted) {
+      return { messageId, summarizedThroughId, content, usage, aborted: true };
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it, vi } from "vitest";
+import { formatRetryAfter } from "@/lib/edgeFunctions";
+
+// Only the formatting is under test; keep the Supabase client out of it
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+describe("formatRetryAfter", () => {
+  it.each([
+    [0, "0s"],
+    [59, "59s"],
+    [60, "1 min"],
+    [61, "2 min"],
+    [3540, "59 min"],
+    [3541, "1h"],
+    [3599, "1h"],
+    [3600, "1h"],
+    [3601, "1h 1m"],
+    [7140, "1h 59m"],
+    [7199, "2h"],
+    [7200, "2h"],
+    [86399, "24h"],
+  ])("formats %is as %s", (seconds, expected) => {
+    expect(formatRetryAfter(seconds)).toBe(expected);
+  });
+});
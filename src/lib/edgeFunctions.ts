@@ -0,0 +1,61 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const edgeFunctionUrl = (name: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`;
+
+// Edge functions act on behalf of the signed-in user, so send their JWT rather than the anon key
+export const getEdgeFunctionHeaders = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+  };
+};
+
+/** Body the edge functions send with a 429 from their own limiter or the AI gateway's */
+export interface RateLimitErrorBody {
+  error: string;
+  code: "rate_limited" | "quota_exceeded" | "upstream_rate_limited";
+  retry_after: number;
+  reset_at: string;
+  limit?: number;
+  remaining?: number;
+  tier?: "user" | "guest";
+}
+
+export class EdgeFunctionError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public rateLimit: RateLimitErrorBody | null = null
+  ) {
+    super(message);
+    this.name = "EdgeFunctionError";
+  }
+}
+
+export const formatRetryAfter = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  // Round up once, then split, so 3599s is "1h" rather than "60 min"
+  const totalMinutes = Math.ceil(seconds / 60);
+  if (totalMinutes < 60) return `${totalMinutes} min`;
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return minutes ? `${hours}h ${minutes}m` : `${hours}h`;
+};
+
+/** Turns a failed edge function response into an error whose message includes when to retry */
+export const readEdgeFunctionError = async (response: Response, fallback: string) => {
+  const body = await response.json().catch(() => ({}));
+  const message: string = body.error || fallback;
+
+  if (response.status === 429 && typeof body.retry_after === "number") {
+    return new EdgeFunctionError(
+      `${message} Try again in ${formatRetryAfter(body.retry_after)}.`,
+      response.status,
+      body as RateLimitErrorBody
+    );
+  }
+
+  return new EdgeFunctionError(message, response.status);
+};
@@ -0,0 +1,16 @@
+export type FeedbackRating = "up" | "down";
+
+// Matches the category check constraint on public.message_feedback
+export const FEEDBACK_CATEGORIES = [
+  { id: "inaccurate", label: "Inaccurate or wrong" },
+  { id: "not_helpful", label: "Not helpful" },
+  { id: "incomplete", label: "Incomplete" },
+  { id: "off_topic", label: "Didn't follow instructions" },
+  { id: "unsafe", label: "Harmful or unsafe" },
+  { id: "other", label: "Other" },
+] as const;
+
+export type FeedbackCategory = (typeof FEEDBACK_CATEGORIES)[number]["id"];
+
+export const getFeedbackCategoryLabel = (id: string | null) =>
+  FEEDBACK_CATEGORIES.find((category) => category.id === id)?.label ?? null;
@@ -0,0 +1,219 @@
+import { describe, expect, it } from "vitest";
+import { highlightCode, type TokenType } from "@/lib/highlight";
+
+// Non-blank tokens as "type:text", line by line
+const tokensOf = (code: string, language: string) =>
+  highlightCode(code, language).tokens.map((line) =>
+    line.filter((token) => token.text.trim() !== "").map((token) => `${token.type}:${token.text.trim()}`)
+  );
+
+const ofType = (code: string, language: string, type: TokenType) =>
+  tokensOf(code, language)
+    .flat()
+    .filter((token) => token.startsWith(`${type}:`))
+    .map((token) => token.slice(type.length + 1));
+
+describe("highlightCode", () => {
+  it("keeps every character of the source", () => {
+    const code = "const a = `x ${b}`; // c\n<div class=\"d\">&amp;</div>\n";
+    for (const language of ["ts", "html", "python", "unknown"]) {
+      const { tokens } = highlightCode(code, language);
+      expect(tokens.map((line) => line.map((token) => token.text).join("")).join("\n")).toBe(code);
+    }
+  });
+
+  it("leaves unknown languages as plain text", () => {
+    expect(highlightCode("just text", "brainfuck").tokens).toEqual([[{ type: "plain", text: "just text" }]]);
+  });
+
+  it("matches the language name case-insensitively", () => {
+    expect(ofType("const x = 1", "TypeScript", "keyword")).toEqual(["const"]);
+  });
+
+  describe("JavaScript and TypeScript", () => {
+    const code = "const greet = (name: string): string => `Hi ${name}`; // say hi\nexport default greet;";
+
+    it("marks keywords, types, strings and comments", () => {
+      expect(ofType(code, "ts", "keyword")).toEqual(["const", "export", "default"]);
+      expect(ofType(code, "ts", "type")).toEqual(["string", "string"]);
+      expect(ofType(code, "ts", "string")).toEqual(["`Hi ${name}`"]);
+      expect(ofType(code, "ts", "comment")).toEqual(["// say hi"]);
+    });
+
+    it("carries block comments and template literals across lines", () => {
+      const lines = tokensOf("/* multi\nline */ let n = 0x1F + 2.5e3;\nconsole.log(`a\nb`, n);", "js");
+      expect(lines[0]).toEqual(["comment:/* multi"]);
+      expect(lines[1].slice(0, 2)).toEqual(["comment:line */", "keyword:let"]);
+      expect(lines[1]).toContain("number:0x1F");
+      expect(lines[1]).toContain("number:2.5e3");
+      expect(lines[2]).toContain("function:log");
+      expect(lines[2]).toContain("string:`a");
+      expect(lines[3][0]).toBe("string:b`");
+    });
+
+    it("doesn't end a string at an escaped quote", () => {
+      expect(ofType('const s = "a \\" b"; x', "js", "string")).toEqual(['"a \\" b"']);
+    });
+  });
+
+  describe("Python", () => {
+    const code = '@dataclass\ndef area(r: float) -> float:\n    """Doc\n    more"""\n    return 3.14 * r ** 2  # comment\nprint(True, None)';
+
+    it("marks decorators, definitions, literals and comments", () => {
+      expect(ofType(code, "python", "function")).toEqual(["@dataclass", "area", "print"]);
+      expect(ofType(code, "python", "keyword")).toEqual(["def", "return"]);
+      expect(ofType(code, "python", "literal")).toEqual(["True", "None"]);
+      expect(ofType(code, "python", "comment")).toEqual(["# comment"]);
+      expect(ofType(code, "py", "number")).toEqual(["3.14", "2"]);
+    });
+
+    it("carries docstrings across lines", () => {
+      const lines = tokensOf(code, "python");
+      expect(lines[2]).toEqual(['string:"""Doc']);
+      expect(lines[3]).toEqual(['string:more"""']);
+      expect(lines[4][0]).toBe("keyword:return");
+    });
+  });
+
+  it("highlights shell commands, flags and comments", () => {
+    const code = '# install\nnpm install --save-dev vitest\necho "$HOME/bin" | grep -v foo';
+    expect(ofType(code, "bash", "comment")).toEqual(["# install"]);
+    expect(ofType(code, "sh", "type")).toEqual(["npm", "echo", "grep"]);
+    expect(ofType(code, "shell", "attribute")).toEqual(["--save-dev", "-v"]);
+    expect(ofType(code, "bash", "string")).toEqual(['"$HOME/bin"']);
+  });
+
+  it("tells JSON keys from values", () => {
+    const code = '{\n  "name": "app",\n  "private": true,\n  "version": 2\n}';
+    expect(ofType(code, "json", "property")).toEqual(['"name"', '"private"', '"version"']);
+    expect(ofType(code, "json", "string")).toEqual(['"app"']);
+    expect(ofType(code, "json", "literal")).toEqual(["true"]);
+    expect(ofType(code, "json", "number")).toEqual(["2"]);
+  });
+
+  it("highlights CSS selectors, properties, values and at-rules", () => {
+    const code = ".btn:hover { color: #fff; margin: 0 4px !important; }\n@media (max-width: 600px) {}";
+    expect(ofType(code, "css", "type")).toEqual([".btn"]);
+    expect(ofType(code, "css", "property")).toEqual(["color", "margin"]);
+    expect(ofType(code, "css", "number")).toEqual(["#fff", "0", "4px", "600px"]);
+    expect(ofType(code, "css", "keyword")).toEqual(["important", "@media"]);
+  });
+
+  describe("markup", () => {
+    it("marks tags, attributes, values, entities and comments", () => {
+      const lines = tokensOf("<!-- note -->\n<a href=\"/x\" class='y'>Tom &amp; Jerry</a>", "html");
+      expect(lines[0]).toEqual(["comment:<!-- note -->"]);
+      expect(lines[1]).toEqual([
+        "tag:<a",
+        "attribute:href",
+        "operator:=",
+        'string:"/x"',
+        "attribute:class",
+        "operator:=",
+        "string:'y'",
+        "tag:>",
+        "plain:Tom",
+        "variable:&amp;",
+        "plain:Jerry",
+        "tag:</a>",
+      ]);
+    });
+
+    it("keeps attributes of a tag that spans lines", () => {
+      const lines = tokensOf('<img\n  src="a.png"\n/>', "html");
+      expect(lines[1]).toEqual(["attribute:src", "operator:=", 'string:"a.png"']);
+      expect(lines[2]).toEqual(["tag:/>"]);
+    });
+
+    it("continues a comment over several lines", () => {
+      const lines = tokensOf("<!-- a\nb -->\n<p>", "xml");
+      expect(lines).toEqual([["comment:<!-- a"], ["comment:b -->"], ["tag:<p>"]]);
+    });
+  });
+
+  it("matches SQL keywords in any case", () => {
+    const code = "SELECT id FROM users WHERE active = true; -- latest\nselect count(*) from t";
+    expect(ofType(code, "sql", "keyword")).toEqual(["SELECT", "FROM", "WHERE", "select", "from"]);
+    expect(ofType(code, "sql", "literal")).toEqual(["true"]);
+    expect(ofType(code, "sql", "function")).toEqual(["count"]);
+    expect(ofType(code, "sql", "comment")).toEqual(["-- latest"]);
+  });
+
+  it("highlights Go, including capitalised calls and raw strings", () => {
+    const code = "package main\nfunc main() {\n\tvar x int64 = 10\n\tfmt.Println(`raw`, nil)\n}";
+    expect(ofType(code, "go", "keyword")).toEqual(["package", "func", "var"]);
+    expect(ofType(code, "go", "type")).toEqual(["int64"]);
+    expect(ofType(code, "go", "function")).toEqual(["main", "Println"]);
+    expect(ofType(code, "go", "string")).toEqual(["`raw`"]);
+    expect(ofType(code, "go", "literal")).toEqual(["nil"]);
+  });
+
+  it("highlights Rust types, macros and paths", () => {
+    const code = 'fn main() {\n    let v: Vec<u8> = Vec::new();\n    println!("{}", v.len());\n}';
+    expect(ofType(code, "rust", "keyword")).toEqual(["fn", "let"]);
+    expect(ofType(code, "rs", "type")).toEqual(["Vec", "u8", "Vec"]);
+    expect(ofType(code, "rust", "function")).toEqual(["main", "new", "println!", "len"]);
+  });
+
+  it("highlights Java annotations and class names", () => {
+    const code = '@Override\npublic String toString() { return "x" + 1; }';
+    expect(ofType(code, "java", "function")).toEqual(["@Override", "toString"]);
+    expect(ofType(code, "java", "keyword")).toEqual(["public", "return"]);
+    expect(ofType(code, "kotlin", "type")).toEqual(["String"]);
+  });
+
+  it("highlights C-family preprocessor lines and types", () => {
+    const code = "#include <vector>\nint main() { std::vector<int> v; return nullptr == 0; }";
+    expect(ofType(code, "cpp", "keyword")).toEqual(["#include", "return"]);
+    expect(ofType(code, "cpp", "type")).toEqual(["int", "std", "int"]);
+    expect(ofType(code, "c++", "literal")).toEqual(["nullptr"]);
+  });
+
+  it("highlights Ruby instance variables and symbols", () => {
+    const code = 'def hi(name)\n  @count += 1\n  puts :sym, "hi" # c\nend';
+    expect(ofType(code, "ruby", "keyword")).toEqual(["def", "end"]);
+    expect(ofType(code, "rb", "variable")).toEqual(["@count"]);
+    expect(ofType(code, "ruby", "literal")).toEqual([":sym"]);
+    expect(ofType(code, "ruby", "comment")).toEqual(["# c"]);
+  });
+
+  it("highlights PHP variables and open and close tags", () => {
+    const code = '<?php\n$name = "x";\necho strlen($name); // c\n?>';
+    expect(ofType(code, "php", "tag")).toEqual(["<?php", "?>"]);
+    expect(ofType(code, "php", "variable")).toEqual(["$name", "$name"]);
+    expect(ofType(code, "php", "keyword")).toEqual(["echo"]);
+    expect(ofType(code, "php", "function")).toEqual(["strlen"]);
+  });
+
+  it("highlights YAML keys, anchors and booleans", () => {
+    const code = "# config\nname: app\nbase: &base\n  enabled: yes\n  ref: *base";
+    expect(ofType(code, "yaml", "property")).toEqual(["name", "base", "enabled", "ref"]);
+    expect(ofType(code, "yml", "variable")).toEqual(["&base", "*base"]);
+    expect(ofType(code, "yaml", "literal")).toEqual(["yes"]);
+    expect(ofType(code, "yaml", "comment")).toEqual(["# config"]);
+  });
+
+  describe("incremental highlighting", () => {
+    it("reuses the unchanged lines of the previous result", () => {
+      const first = highlightCode("const a = 1;\nconst b = 2;\nconst c", "ts");
+      const second = highlightCode("const a = 1;\nconst b = 2;\nconst c = 3;", "ts", first);
+
+      expect(second.tokens[0]).toBe(first.tokens[0]);
+      expect(second.tokens[1]).toBe(first.tokens[1]);
+      expect(second.tokens[2]).not.toBe(first.tokens[2]);
+      expect(second).toEqual(highlightCode("const a = 1;\nconst b = 2;\nconst c = 3;", "ts"));
+    });
+
+    it("re-tokenizes later lines when an earlier one opens a comment", () => {
+      const first = highlightCode("let a;\nlet b;", "js");
+      const second = highlightCode("let a; /*\nlet b;", "js", first);
+      expect(second.tokens[1]).toEqual([{ type: "comment", text: "let b;" }]);
+    });
+
+    it("starts over when the language changes", () => {
+      const first = highlightCode("print(1)", "python");
+      const second = highlightCode("print(1)", "text", first);
+      expect(second.tokens).toEqual([[{ type: "plain", text: "print(1)" }]]);
+    });
+  });
+});
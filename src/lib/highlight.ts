@@ -0,0 +1,520 @@
+export type TokenType =
+  | "plain"
+  | "keyword"
+  | "literal"
+  | "type"
+  | "function"
+  | "string"
+  | "number"
+  | "comment"
+  | "operator"
+  | "punctuation"
+  | "property"
+  | "variable"
+  | "tag"
+  | "attribute";
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+// What a line ends inside of, so the next line can carry on from there
+type LineState = { kind: "comment" | "string" | "tag"; end: string } | null;
+
+interface Grammar {
+  keywords: string[];
+  literals?: string[];
+  types?: string[];
+  lineComments?: string[];
+  blockComments?: [string, string][];
+  // Longest delimiters first; the ones listed in multiline may span lines
+  strings?: string[];
+  multiline?: string[];
+  rules?: { pattern: RegExp; type: TokenType }[];
+  caseInsensitive?: boolean;
+  markup?: boolean;
+}
+
+const words = (list: string) => list.split(" ");
+
+const C_LIKE_COMMENTS: Pick<Grammar, "lineComments" | "blockComments"> = {
+  lineComments: ["//"],
+  blockComments: [["/*", "*/"]],
+};
+
+const JAVASCRIPT: Grammar = {
+  ...C_LIKE_COMMENTS,
+  keywords: words(
+    "abstract as async await break case catch class const continue debugger declare default delete do else enum export extends finally for from function get if implements import in instanceof interface keyof let namespace new of private protected public readonly return satisfies set static super switch throw try type typeof var void while yield"
+  ),
+  literals: words("true false null undefined this NaN Infinity"),
+  types: words("string number boolean any unknown never object symbol bigint"),
+  strings: ["`", '"', "'"],
+  multiline: ["`"],
+};
+
+const PYTHON: Grammar = {
+  keywords: words(
+    "and as assert async await break class continue def del elif else except finally for from global if import in is lambda match case nonlocal not or pass raise return try while with yield"
+  ),
+  literals: words("True False None self cls"),
+  types: words("int float str bool list dict set tuple bytes object"),
+  lineComments: ["#"],
+  strings: ['"""', "'''", '"', "'"],
+  multiline: ['"""', "'''"],
+  rules: [{ pattern: /@[\w.]+/y, type: "function" }],
+};
+
+const SHELL: Grammar = {
+  keywords: words(
+    "if then else elif fi for while until do done case esac in function return exit export local readonly source alias unset shift break continue"
+  ),
+  literals: words("true false"),
+  types: words("echo cd ls cat grep sed awk curl npm npx yarn pnpm git docker sudo mkdir rm cp mv chmod pip python node"),
+  lineComments: ["#"],
+  strings: ['"', "'"],
+  multiline: ['"', "'"],
+  rules: [
+    { pattern: /\$\{[^}]*\}|\$[\w@#?$!*-]/y, type: "variable" },
+    { pattern: /--?[\w-]+/y, type: "attribute" },
+  ],
+};
+
+const JSON_GRAMMAR: Grammar = {
+  keywords: [],
+  literals: words("true false null"),
+  strings: ['"'],
+  rules: [{ pattern: /"(?:[^"\\]|\\.)*"(?=\s*:)/y, type: "property" }],
+};
+
+const CSS: Grammar = {
+  keywords: words("important from to and not only"),
+  blockComments: [["/*", "*/"]],
+  strings: ['"', "'"],
+  rules: [
+    { pattern: /@[\w-]+/y, type: "keyword" },
+    { pattern: /#[\da-fA-F]{3,8}\b/y, type: "number" },
+    { pattern: /--[\w-]+|[a-z-]+(?=\s*:[^;{}]*(?:;|}|$))/y, type: "property" },
+    { pattern: /-?\d*\.?\d+(?:px|em|rem|%|vh|vw|s|ms|deg|fr)?/y, type: "number" },
+    { pattern: /[.#][\w-]+/y, type: "type" },
+  ],
+};
+
+const MARKUP: Grammar = {
+  keywords: [],
+  markup: true,
+};
+
+const SQL: Grammar = {
+  keywords: words(
+    "select from where and or not insert into values update set delete create table alter drop index view join left right inner outer full on as group by order having limit offset distinct union all case when then else end if exists primary key foreign references default unique check returns return language begin commit rollback grant revoke with in is like between asc desc cascade function trigger policy using"
+  ),
+  literals: words("null true false"),
+  types: words("int integer bigint smallint text varchar char boolean uuid timestamp timestamptz date jsonb json numeric serial real"),
+  lineComments: ["--"],
+  blockComments: [["/*", "*/"]],
+  strings: ["'", '"'],
+  caseInsensitive: true,
+};
+
+const GO: Grammar = {
+  ...C_LIKE_COMMENTS,
+  keywords: words(
+    "break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var"
+  ),
+  literals: words("true false nil iota"),
+  types: words("string int int8 int16 int32 int64 uint uint8 uint16 uint32 uint64 float32 float64 bool byte rune error any"),
+  strings: ["`", '"', "'"],
+  multiline: ["`"],
+};
+
+const RUST: Grammar = {
+  ...C_LIKE_COMMENTS,
+  keywords: words(
+    "as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub ref return static struct super trait type unsafe use where while"
+  ),
+  literals: words("true false self Self None Some Ok Err"),
+  types: words("i8 i16 i32 i64 i128 isize u8 u16 u32 u64 u128 usize f32 f64 bool char str String Vec Option Result Box"),
+  strings: ['"'],
+  multiline: ['"'],
+  rules: [
+    { pattern: /[a-z_]\w*!/y, type: "function" },
+    { pattern: /'[a-z_]\w*\b(?!')/y, type: "type" },
+  ],
+};
+
+const JAVA: Grammar = {
+  ...C_LIKE_COMMENTS,
+  keywords: words(
+    "abstract assert break case catch class const continue default do else enum extends final finally for if implements import instanceof interface native new package private protected public return static super switch synchronized throw throws transient try var void volatile while record yield fun val when object override companion data sealed"
+  ),
+  literals: words("true false null this"),
+  types: words("int long short byte char float double boolean String"),
+  strings: ['"""', '"', "'"],
+  multiline: ['"""'],
+  rules: [{ pattern: /@\w+/y, type: "function" }],
+};
+
+const C_FAMILY: Grammar = {
+  ...C_LIKE_COMMENTS,
+  keywords: words(
+    "auto break case catch class const constexpr continue default delete do else enum explicit extern for friend goto if inline namespace new operator private protected public return sizeof static struct switch template this throw try typedef typename union using virtual volatile while override async await base foreach in is lock out params readonly ref sealed get set var"
+  ),
+  literals: words("true false NULL nullptr null"),
+  types: words("int long short char float double bool void unsigned signed size_t string std uint8_t int32_t int64_t decimal object"),
+  strings: ['"', "'"],
+  rules: [{ pattern: /#\s*\w+/y, type: "keyword" }],
+};
+
+const RUBY: Grammar = {
+  keywords: words(
+    "alias and begin break case class def defined? do else elsif end ensure for if in module next not or redo rescue retry return then unless until when while yield require attr_accessor attr_reader include"
+  ),
+  literals: words("true false nil self"),
+  lineComments: ["#"],
+  strings: ['"', "'"],
+  rules: [
+    { pattern: /@{1,2}\w+/y, type: "variable" },
+    { pattern: /:\w+/y, type: "literal" },
+  ],
+};
+
+const PHP: Grammar = {
+  ...C_LIKE_COMMENTS,
+  lineComments: ["//", "#"],
+  keywords: words(
+    "abstract and as break case catch class const continue declare default do echo else elseif empty extends final finally fn for foreach function global if implements include interface isset namespace new or private protected public require require_once return static switch throw trait try use var while yield match"
+  ),
+  literals: words("true false null TRUE FALSE NULL"),
+  strings: ['"', "'"],
+  multiline: ['"', "'"],
+  rules: [
+    { pattern: /\$\w+/y, type: "variable" },
+    { pattern: /<\?php|\?>/y, type: "tag" },
+  ],
+};
+
+const YAML: Grammar = {
+  keywords: [],
+  literals: words("true false null yes no on off"),
+  lineComments: ["#"],
+  strings: ['"', "'"],
+  rules: [
+    { pattern: /[\w.-]+(?=\s*:(?:\s|$))/y, type: "property" },
+    { pattern: /[&*][\w-]+|![\w!]+/y, type: "variable" },
+  ],
+};
+
+const GRAMMARS: Record<string, Grammar> = {
+  javascript: JAVASCRIPT,
+  js: JAVASCRIPT,
+  jsx: JAVASCRIPT,
+  mjs: JAVASCRIPT,
+  typescript: JAVASCRIPT,
+  ts: JAVASCRIPT,
+  tsx: JAVASCRIPT,
+  react: JAVASCRIPT,
+  python: PYTHON,
+  py: PYTHON,
+  bash: SHELL,
+  sh: SHELL,
+  shell: SHELL,
+  zsh: SHELL,
+  console: SHELL,
+  json: JSON_GRAMMAR,
+  css: CSS,
+  scss: CSS,
+  less: CSS,
+  html: MARKUP,
+  xml: MARKUP,
+  svg: MARKUP,
+  vue: MARKUP,
+  sql: SQL,
+  postgresql: SQL,
+  go: GO,
+  rust: RUST,
+  rs: RUST,
+  java: JAVA,
+  kotlin: JAVA,
+  kt: JAVA,
+  c: C_FAMILY,
+  cpp: C_FAMILY,
+  "c++": C_FAMILY,
+  h: C_FAMILY,
+  csharp: C_FAMILY,
+  cs: C_FAMILY,
+  ruby: RUBY,
+  rb: RUBY,
+  php: PHP,
+  yaml: YAML,
+  yml: YAML,
+};
+
+const NUMBER = /0[xob][\da-f_]+n?|\d[\d_]*\.?[\d_]*(?:e[+-]?\d+)?[a-z]*|\.\d+/iy;
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const OPERATOR = /[+\-*/%=<>!&|^~?:]+/y;
+const PUNCTUATION = /[{}()[\];,.]/;
+const WHITESPACE = /\s+/y;
+
+// Markup only: tag names, attribute names and entities
+const TAG_OPEN = /<\/?[\w:-]+|<!\w+/y;
+const ATTRIBUTE = /[\w:@.-]+/y;
+const ENTITY = /&#?\w+;/y;
+
+const matchAt = (pattern: RegExp, line: string, index: number) => {
+  pattern.lastIndex = index;
+  const match = pattern.exec(line);
+  return match && match.index === index ? match[0] : null;
+};
+
+// Index just past the closing delimiter, or -1 if the string runs past the end of the line
+const findStringEnd = (line: string, from: number, end: string) => {
+  for (let i = from; i < line.length; i++) {
+    if (line[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (line.startsWith(end, i)) return i + end.length;
+  }
+  return -1;
+};
+
+const tokenizeMarkup = (line: string, state: LineState): { tokens: Token[]; state: LineState } => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < line.length) {
+    if (state?.kind === "comment") {
+      const close = line.indexOf(state.end, i);
+      const stop = close === -1 ? line.length : close + state.end.length;
+      tokens.push({ type: "comment", text: line.slice(i, stop) });
+      i = stop;
+      if (close !== -1) state = null;
+      continue;
+    }
+
+    if (state?.kind === "string") {
+      const close = line.indexOf(state.end, i);
+      const stop = close === -1 ? line.length : close + 1;
+      tokens.push({ type: "string", text: line.slice(i, stop) });
+      i = stop;
+      if (close !== -1) state = { kind: "tag", end: ">" };
+      continue;
+    }
+
+    if (state?.kind === "tag") {
+      const rest = line.slice(i);
+      const close = rest.startsWith("/>") ? "/>" : rest.startsWith(">") ? ">" : null;
+      if (close) {
+        tokens.push({ type: "tag", text: close });
+        i += close.length;
+        state = null;
+        continue;
+      }
+      if (line[i] === '"' || line[i] === "'") {
+        state = { kind: "string", end: line[i] };
+        tokens.push({ type: "string", text: line[i] });
+        i++;
+        continue;
+      }
+      const attribute = matchAt(ATTRIBUTE, line, i);
+      if (attribute) {
+        tokens.push({ type: "attribute", text: attribute });
+        i += attribute.length;
+        continue;
+      }
+      tokens.push({ type: line[i] === "=" ? "operator" : "plain", text: line[i] });
+      i++;
+      continue;
+    }
+
+    if (line.startsWith("<!--", i)) {
+      state = { kind: "comment", end: "-->" };
+      tokens.push({ type: "comment", text: "<!--" });
+      i += 4;
+      continue;
+    }
+
+    const tag = matchAt(TAG_OPEN, line, i);
+    if (tag) {
+      tokens.push({ type: "tag", text: tag });
+      i += tag.length;
+      state = { kind: "tag", end: ">" };
+      continue;
+    }
+
+    const entity = matchAt(ENTITY, line, i);
+    if (entity) {
+      tokens.push({ type: "variable", text: entity });
+      i += entity.length;
+      continue;
+    }
+
+    const next = line.slice(i + 1).search(/[<&]/);
+    const stop = next === -1 ? line.length : i + 1 + next;
+    tokens.push({ type: "plain", text: line.slice(i, stop) });
+    i = stop;
+  }
+
+  return { tokens, state };
+};
+
+const tokenizeCode = (line: string, grammar: Grammar, state: LineState): { tokens: Token[]; state: LineState } => {
+  const tokens: Token[] = [];
+  const normalize = (word: string) => (grammar.caseInsensitive ? word.toLowerCase() : word);
+  let i = 0;
+
+  const emit = (type: TokenType, text: string) => {
+    tokens.push({ type, text });
+    i += text.length;
+  };
+
+  while (i < line.length) {
+    if (state) {
+      const close = state.kind === "comment" ? line.indexOf(state.end, i) : findStringEnd(line, i, state.end);
+      const stop = close === -1 ? line.length : state.kind === "comment" ? close + state.end.length : close;
+      emit(state.kind === "comment" ? "comment" : "string", line.slice(i, stop));
+      if (close !== -1) state = null;
+      continue;
+    }
+
+    const blockComment = grammar.blockComments?.find(([open]) => line.startsWith(open, i));
+    if (blockComment) {
+      state = { kind: "comment", end: blockComment[1] };
+      emit("comment", blockComment[0]);
+      continue;
+    }
+
+    if (grammar.lineComments?.some((marker) => line.startsWith(marker, i))) {
+      emit("comment", line.slice(i));
+      continue;
+    }
+
+    const rule = grammar.rules?.find((r) => matchAt(r.pattern, line, i) !== null);
+    if (rule) {
+      emit(rule.type, matchAt(rule.pattern, line, i)!);
+      continue;
+    }
+
+    const quote = grammar.strings?.find((delimiter) => line.startsWith(delimiter, i));
+    if (quote) {
+      const close = findStringEnd(line, i + quote.length, quote);
+      if (close === -1 && grammar.multiline?.includes(quote)) {
+        emit("string", line.slice(i));
+        state = { kind: "string", end: quote };
+      } else {
+        emit("string", line.slice(i, close === -1 ? line.length : close));
+      }
+      continue;
+    }
+
+    const number = matchAt(NUMBER, line, i);
+    if (number && !/[\w$]/.test(line[i - 1] ?? "")) {
+      emit("number", number);
+      continue;
+    }
+
+    const word = matchAt(IDENTIFIER, line, i);
+    if (word) {
+      const key = normalize(word);
+      if (grammar.keywords.includes(key)) emit("keyword", word);
+      else if (grammar.literals?.includes(key)) emit("literal", word);
+      else if (grammar.types?.includes(key)) emit("type", word);
+      // A capitalised call like fmt.Println(...) is still a call, not a type
+      else if (/^\s*\(/.test(line.slice(i + word.length))) emit("function", word);
+      else if (/^[A-Z][a-z]\w*$/.test(word)) emit("type", word);
+      else emit("plain", word);
+      continue;
+    }
+
+    const space = matchAt(WHITESPACE, line, i);
+    if (space) {
+      emit("plain", space);
+      continue;
+    }
+
+    const operator = matchAt(OPERATOR, line, i);
+    if (operator) {
+      emit("operator", operator);
+      continue;
+    }
+
+    emit(PUNCTUATION.test(line[i]) ? "punctuation" : "plain", line[i]);
+  }
+
+  return { tokens, state };
+};
+
+const tokenizeLine = (line: string, grammar: Grammar, state: LineState) => {
+  const result = grammar.markup ? tokenizeMarkup(line, state) : tokenizeCode(line, grammar, state);
+
+  // Adjacent tokens of the same type render as one span
+  const merged: Token[] = [];
+  for (const token of result.tokens) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === token.type) last.text += token.text;
+    else merged.push({ ...token });
+  }
+
+  return { tokens: merged, state: result.state };
+};
+
+export interface HighlightedCode {
+  language: string;
+  lines: string[];
+  tokens: Token[][];
+  // State at the end of each line
+  states: LineState[];
+}
+
+/**
+ * Splits code into lines of tokens. Pass the previous result for the same block
+ * and only the lines from the first changed one onwards are tokenized again, which
+ * keeps a block that is still streaming in cheap to re-highlight on every chunk.
+ */
+export const highlightCode = (code: string, language: string, previous?: HighlightedCode | null): HighlightedCode => {
+  const lines = code.split("\n");
+  const grammar = GRAMMARS[language.toLowerCase()];
+
+  if (!grammar) {
+    return { language, lines, tokens: lines.map((text) => [{ type: "plain", text }]), states: lines.map(() => null) };
+  }
+
+  let reused = 0;
+  if (previous && previous.language === language) {
+    const limit = Math.min(previous.lines.length, lines.length);
+    while (reused < limit && previous.lines[reused] === lines[reused]) reused++;
+  }
+
+  const tokens = previous ? previous.tokens.slice(0, reused) : [];
+  const states = previous ? previous.states.slice(0, reused) : [];
+  let state = reused > 0 ? states[reused - 1] : null;
+
+  for (let i = reused; i < lines.length; i++) {
+    const result = tokenizeLine(lines[i], grammar, state);
+    tokens.push(result.tokens);
+    states.push(result.state);
+    state = result.state;
+  }
+
+  return { language, lines, tokens, states };
+};
+
+// Colours for both themes; the dark: variants follow the class useTheme sets on <html>
+export const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: "",
+  keyword: "text-purple-700 dark:text-purple-400",
+  literal: "text-orange-700 dark:text-orange-300",
+  type: "text-teal-700 dark:text-teal-300",
+  function: "text-blue-700 dark:text-blue-400",
+  string: "text-green-700 dark:text-green-400",
+  number: "text-orange-700 dark:text-orange-300",
+  comment: "text-slate-500 italic",
+  operator: "text-sky-700 dark:text-sky-300",
+  punctuation: "text-slate-600 dark:text-slate-400",
+  property: "text-red-700 dark:text-red-400",
+  variable: "text-rose-700 dark:text-rose-300",
+  tag: "text-red-700 dark:text-red-400",
+  attribute: "text-amber-700 dark:text-amber-300",
+};
@@ -0,0 +1,71 @@
+// Keep in sync with ASPECT_RATIOS and MAX_IMAGE_COUNT in supabase/functions/generate-image/index.ts
+export const ASPECT_RATIOS = [
+  { id: "1:1", label: "Square (1:1)" },
+  { id: "16:9", label: "Landscape (16:9)" },
+  { id: "9:16", label: "Portrait (9:16)" },
+  { id: "4:3", label: "Standard (4:3)" },
+  { id: "3:4", label: "Tall (3:4)" },
+] as const;
+
+export type AspectRatio = (typeof ASPECT_RATIOS)[number]["id"];
+
+export const DEFAULT_ASPECT_RATIO: AspectRatio = "1:1";
+export const MAX_IMAGE_COUNT = 4;
+export const MAX_STYLE_LENGTH = 500;
+
+export interface ImageStylePreset {
+  id: string;
+  name: string;
+  style_prompt: string;
+  negative_prompt: string | null;
+  aspect_ratio: AspectRatio | null;
+}
+
+// Always offered; users' own presets are listed after these
+export const BUILT_IN_STYLE_PRESETS: ImageStylePreset[] = [
+  {
+    id: "builtin-photo",
+    name: "Photorealistic",
+    style_prompt: "photorealistic, natural lighting, shallow depth of field, 35mm photograph",
+    negative_prompt: "cartoon, illustration, text, watermark",
+    aspect_ratio: null,
+  },
+  {
+    id: "builtin-illustration",
+    name: "Flat illustration",
+    style_prompt: "flat vector illustration, bold shapes, limited color palette, clean lines",
+    negative_prompt: "photo, realistic, noise",
+    aspect_ratio: null,
+  },
+  {
+    id: "builtin-watercolor",
+    name: "Watercolor",
+    style_prompt: "soft watercolor painting, visible paper texture, gentle color bleeds",
+    negative_prompt: null,
+    aspect_ratio: null,
+  },
+  {
+    id: "builtin-3d",
+    name: "3D render",
+    style_prompt: "3D render, soft studio lighting, smooth materials, high detail",
+    negative_prompt: "flat, sketch",
+    aspect_ratio: null,
+  },
+  {
+    id: "builtin-pixel",
+    name: "Pixel art",
+    style_prompt: "16-bit pixel art, crisp pixels, retro game palette",
+    negative_prompt: "blur, smooth gradients",
+    aspect_ratio: "1:1",
+  },
+];
+
+export const isBuiltInPreset = (id: string) => id.startsWith("builtin-");
+
+export interface ImageGenerationOptions {
+  prompt: string;
+  style: string;
+  negativePrompt: string;
+  aspectRatio: AspectRatio;
+  count: number;
+}
@@ -0,0 +1,213 @@
+import { describe, expect, it, vi } from "vitest";
+import { findCodeFences, parseMarkdown, type BlockNode, type InlineNode } from "@/lib/markdown";
+
+// Plain text of inline nodes, ignoring formatting
+const textOf = (nodes: InlineNode[]): string =>
+  nodes
+    .map((node) => {
+      if (node.type === "text" || node.type === "code") return node.text;
+      if (node.type === "break") return "\n";
+      if (node.type === "image") return node.alt;
+      return textOf(node.children);
+    })
+    .join("");
+
+// Text of an item's paragraphs and the types of its other blocks, e.g. "a / list"
+const itemText = (blocks: BlockNode[]) =>
+  blocks.map((block) => (block.type === "paragraph" ? textOf(block.children) : block.type)).join(" / ");
+
+// Each list as its kind, start and item texts, e.g. "ol@2: a | b"
+const listsOf = (blocks: BlockNode[]) =>
+  blocks.flatMap((block) =>
+    block.type === "list"
+      ? [`${block.ordered ? `ol@${block.start}` : "ul"}: ${block.items.map((item) => itemText(item.children)).join(" | ")}`]
+      : []
+  );
+
+const inlineOf = (source: string) => {
+  const [block] = parseMarkdown(source);
+  if (block.type !== "paragraph") throw new Error(`Expected a paragraph, got ${block.type}`);
+  return block.children;
+};
+
+describe("parseMarkdown", () => {
+  describe("lists", () => {
+    it("keeps a loose ordered list as one list", () => {
+      const blocks = parseMarkdown("1. a\n\n2. b\n\n3. c");
+      expect(blocks).toHaveLength(1);
+      expect(listsOf(blocks)).toEqual(["ol@1: a | b | c"]);
+    });
+
+    it("keeps a loose bullet list with indented paragraphs as one list", () => {
+      const blocks = parseMarkdown("- a\n\n  more about a\n\n- b");
+      expect(listsOf(blocks)).toEqual(["ul: a / more about a | b"]);
+    });
+
+    it("starts an ordered list at its first number", () => {
+      expect(listsOf(parseMarkdown("3. c\n4. d"))).toEqual(["ol@3: c | d"]);
+    });
+
+    it("ends a list at a paragraph or a list of the other kind", () => {
+      const blocks = parseMarkdown("- a\n\nBetween.\n\n- b\n\n1. c");
+      expect(blocks.map((block) => block.type)).toEqual(["list", "paragraph", "list", "list"]);
+      expect(listsOf(blocks)).toEqual(["ul: a", "ul: b", "ol@1: c"]);
+    });
+
+    it("nests indented lists inside items", () => {
+      const [list] = parseMarkdown("- a\n  - a.1\n  - a.2\n- b");
+      expect(list.type === "list" && list.items.map((item) => item.children.map((child) => child.type))).toEqual([
+        ["paragraph", "list"],
+        ["paragraph"],
+      ]);
+      expect(list.type === "list" && listsOf(list.items[0].children)).toEqual(["ul: a.1 | a.2"]);
+    });
+
+    it("reads task list checkboxes", () => {
+      const [list] = parseMarkdown("- [x] done\n- [ ] todo\n- plain");
+      expect(list.type === "list" && list.items.map((item) => item.checked)).toEqual([true, false, null]);
+      expect(listsOf([list])).toEqual(["ul: done | todo | plain"]);
+    });
+  });
+
+  describe("tables", () => {
+    it("reads alignment, escaped pipes and pipes in code", () => {
+      const [table] = parseMarkdown("| Name | Qty | Note |\n|:--|:-:|--:|\n| a \\| b | 1 | `x|y` |\n| c | 2 |");
+      if (table.type !== "table") throw new Error(`Expected a table, got ${table.type}`);
+
+      expect(table.align).toEqual(["left", "center", "right"]);
+      expect(table.header.map(textOf)).toEqual(["Name", "Qty", "Note"]);
+      expect(table.rows.map((row) => row.map(textOf))).toEqual([
+        ["a | b", "1", "x|y"],
+        ["c", "2", ""],
+      ]);
+    });
+
+    it("needs a delimiter row", () => {
+      expect(parseMarkdown("a | b\nc | d")[0].type).toBe("paragraph");
+    });
+  });
+
+  describe("code fences", () => {
+    it("lets a longer fence wrap a shorter one", () => {
+      expect(parseMarkdown("````md\n```js\nx()\n```\n````")).toEqual([
+        { type: "code", language: "md", code: "```js\nx()\n```", closed: true },
+      ]);
+    });
+
+    it("closes a tilde fence only with tildes", () => {
+      expect(parseMarkdown("~~~\na\n```\n~~~")).toEqual([{ type: "code", language: "code", code: "a\n```", closed: true }]);
+    });
+
+    it("keeps blank lines inside a fence", () => {
+      expect(parseMarkdown("```py\na\n\n\nb\n```\n\nafter").map((block) => block.type)).toEqual(["code", "paragraph"]);
+    });
+
+    it("marks a fence that is still streaming in as open", () => {
+      expect(parseMarkdown("Intro\n\n```ts\nconst a")).toEqual([
+        { type: "paragraph", children: [{ type: "text", text: "Intro" }] },
+        { type: "code", language: "ts", code: "const a", closed: false },
+      ]);
+    });
+
+    it("reads backticks around a language as inline code", () => {
+      expect(inlineOf("```js```")).toEqual([{ type: "code", text: "js" }]);
+    });
+
+    it("finds fences with their info string and lines", () => {
+      expect(findCodeFences("text\n```js title=\"a.js\"\nrun()\n```\n~~~css")).toEqual([
+        { language: "js", meta: 'title="a.js"', code: "run()", closed: true, start: 1, end: 4 },
+        { language: "css", meta: "", code: "", closed: false, start: 4, end: 5 },
+      ]);
+    });
+  });
+
+  describe("links and HTML", () => {
+    it("renders web and mail links", () => {
+      expect(inlineOf('[docs](https://example.com "Docs") and <mailto:a@b.c>')).toEqual([
+        { type: "link", href: "https://example.com", title: "Docs", children: [{ type: "text", text: "docs" }] },
+        { type: "text", text: " and " },
+        { type: "link", href: "mailto:a@b.c", title: null, children: [{ type: "text", text: "mailto:a@b.c" }] },
+      ]);
+    });
+
+    it.each(["javascript:alert(1)", "JavaScript:alert(1)", "data:text/html;base64,PHNjcmlwdD4=", "vbscript:x"])(
+      "shows a link to %s as plain text",
+      (url) => {
+        expect(inlineOf(`[click](${url})`)).toEqual([{ type: "text", text: "click" }]);
+      }
+    );
+
+    it("allows data URLs only for images", () => {
+      const png = "data:image/png;base64,iVBORw0KGgo=";
+      expect(inlineOf(`![chart](${png})`)).toEqual([{ type: "image", src: png, alt: "chart" }]);
+      expect(inlineOf("![x](data:image/svg+xml;base64,PHN2Zz4=)")).toEqual([{ type: "text", text: "x" }]);
+      expect(inlineOf("![x](javascript:alert(1))")).toEqual([{ type: "text", text: "x" }]);
+    });
+
+    it("links bare URLs without trailing punctuation", () => {
+      const url = "https://example.com/docs?q=1";
+      expect(inlineOf(`See ${url}.`)).toEqual([
+        { type: "text", text: "See " },
+        { type: "link", href: url, title: null, children: [{ type: "text", text: url }] },
+        { type: "text", text: "." },
+      ]);
+    });
+
+    it("keeps allowed inline tags without their attributes and shows others as text", () => {
+      expect(inlineOf('<kbd onclick="x()">Ctrl</kbd> <script>alert(1)</script>')).toEqual([
+        { type: "html", tag: "kbd", children: [{ type: "text", text: "Ctrl" }] },
+        { type: "text", text: " <script>alert(1)</script>" },
+      ]);
+    });
+
+    it("only embeds videos from web URLs", () => {
+      expect(parseMarkdown('<video controls><source src="https://cdn.example.com/v.mp4"></video>')).toEqual([
+        { type: "video", src: "https://cdn.example.com/v.mp4" },
+      ]);
+      expect(parseMarkdown('<video><source src="javascript:x"></video>')).toEqual([]);
+    });
+  });
+
+  it("parses emphasis but not underscores inside words", () => {
+    expect(inlineOf("**bold** _em_ ~~gone~~ snake_case_name")).toEqual([
+      { type: "strong", children: [{ type: "text", text: "bold" }] },
+      { type: "text", text: " " },
+      { type: "emphasis", children: [{ type: "text", text: "em" }] },
+      { type: "text", text: " " },
+      { type: "strike", children: [{ type: "text", text: "gone" }] },
+      { type: "text", text: " snake_case_name" },
+    ]);
+  });
+
+  it("treats CRLF like LF", () => {
+    expect(parseMarkdown("# Title\r\n\r\n- a\r\n- b")).toEqual(parseMarkdown("# Title\n\n- a\n- b"));
+  });
+
+  describe("while streaming", () => {
+    it("reuses the blocks of segments that haven't changed", () => {
+      const first = parseMarkdown("# Title\n\nSome text\n\n- a");
+      const second = parseMarkdown("# Title\n\nSome text\n\n- a\n- b");
+
+      expect(second[0]).toBe(first[0]);
+      expect(second[1]).toBe(first[1]);
+      expect(second[2]).not.toBe(first[2]);
+      expect(listsOf(second)).toEqual(["ul: a | b"]);
+    });
+
+    it("reparses the last segment when a loose list grows", () => {
+      parseMarkdown("1. a\n\n");
+      expect(listsOf(parseMarkdown("1. a\n\n2. b"))).toEqual(["ol@1: a | b"]);
+    });
+
+    it("gives the same result as parsing from scratch at every step", async () => {
+      const source = "Intro\n\n| a | b |\n|---|---|\n| 1 | 2 |\n\n1. one\n\n2. two\n\n```js\nx()\n\n```\n\nDone [link](https://x.y)";
+      for (let end = 1; end <= source.length; end += 5) {
+        const streamed = parseMarkdown(source.slice(0, end));
+        // A fresh copy of the module starts with an empty segment cache
+        vi.resetModules();
+        const fresh = await import("@/lib/markdown");
+        expect(streamed).toEqual(fresh.parseMarkdown(source.slice(0, end)));
+      }
+    });
+  });
+});
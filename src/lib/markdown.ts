@@ -0,0 +1,600 @@
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "break" }
+  | { type: "strong" | "emphasis" | "strike"; children: InlineNode[] }
+  | { type: "html"; tag: string; children: InlineNode[] }
+  | { type: "link"; href: string; title: string | null; children: InlineNode[] }
+  | { type: "image"; src: string; alt: string };
+
+export type TableAlign = "left" | "center" | "right" | null;
+
+export interface ListItem {
+  // null for a plain item, otherwise the state of its task checkbox
+  checked: boolean | null;
+  children: BlockNode[];
+}
+
+export type BlockNode =
+  | { type: "paragraph"; children: InlineNode[] }
+  | { type: "heading"; level: number; children: InlineNode[] }
+  // `closed` is false for a fence still open at the end, i.e. a block being streamed in
+  | { type: "code"; language: string; code: string; closed: boolean }
+  | { type: "blockquote"; children: BlockNode[] }
+  | { type: "list"; ordered: boolean; start: number; items: ListItem[] }
+  | { type: "table"; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: "rule" }
+  | { type: "video"; src: string };
+
+// Inline HTML the renderer understands; any other tag is shown as literal text
+const ALLOWED_HTML_TAGS = ["b", "strong", "i", "em", "u", "s", "del", "ins", "mark", "sub", "sup", "kbd", "code", "small"];
+
+const FENCE = /^(\s*)(`{3,}|~{3,})\s*([\w+#.-]*)(.*)$/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^ {0,3}>/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(\s+|$)(.*)$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const VIDEO_SOURCE = /<source\s+[^>]*src="([^"]+)"/i;
+const ESCAPABLE = /[!-/:-@[-`{-~]/;
+
+/** Only web and mail links are rendered as links; anything else stays plain text */
+const safeUrl = (url: string) => {
+  const trimmed = url.trim();
+  return /^(https?:\/\/|mailto:)/i.test(trimmed) ? trimmed : null;
+};
+
+// Images may also be inline data URLs, as older generated images were stored that way
+const safeImageUrl = (url: string) => {
+  const trimmed = url.trim();
+  return /^data:image\/(png|jpe?g|gif|webp);base64,/i.test(trimmed) ? trimmed : safeUrl(trimmed);
+};
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+// A backtick fence's info string can't contain backticks; "```js```" is inline code
+const matchFence = (line: string) => {
+  const match = line.match(FENCE);
+  return match && !(match[2][0] === "`" && match[4].includes("`")) ? match : null;
+};
+
+const isFenceClose = (line: string, marker: string) => {
+  const trimmed = line.trim();
+  return trimmed.startsWith(marker) && trimmed.replace(/[`~]/g, "") === "" && trimmed[0] === marker[0];
+};
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes("|") && i + 1 < lines.length && lines[i + 1].includes("-") && TABLE_DELIMITER.test(lines[i + 1]);
+
+// Lines that end a paragraph without a blank line in between
+const startsBlock = (lines: string[], i: number) => {
+  const line = lines[i];
+  return (
+    matchFence(line) !== null ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    BLOCKQUOTE.test(line) ||
+    LIST_ITEM.test(line) ||
+    /^\s*<video\b/i.test(line) ||
+    isTableStart(lines, i)
+  );
+};
+
+// ---- Inline ----
+
+// Length of the run of `char` starting at `index`
+const runLength = (text: string, index: number, char: string) => {
+  let end = index;
+  while (text[end] === char) end++;
+  return end - index;
+};
+
+// Index of the closing delimiter, skipping escapes, code spans and doubled single delimiters
+const findClose = (text: string, from: number, delimiter: string) => {
+  for (let j = from; j < text.length; j++) {
+    if (text[j] === "\\") {
+      j++;
+      continue;
+    }
+    if (text[j] === "`") {
+      const run = "`".repeat(runLength(text, j, "`"));
+      const close = text.indexOf(run, j + run.length);
+      if (close !== -1) j = close + run.length - 1;
+      continue;
+    }
+    if (!text.startsWith(delimiter, j)) continue;
+    if (delimiter.length === 1 && text[j + 1] === delimiter) {
+      j++;
+      continue;
+    }
+    if (j > from && !/\s/.test(text[j - 1])) return j;
+  }
+  return -1;
+};
+
+// Parses `[label](url "title")` starting at the opening bracket
+const parseLinkAt = (text: string, start: number) => {
+  let depth = 0;
+  let labelEnd = -1;
+  for (let j = start; j < text.length; j++) {
+    if (text[j] === "\\") {
+      j++;
+    } else if (text[j] === "[") {
+      depth++;
+    } else if (text[j] === "]" && --depth === 0) {
+      labelEnd = j;
+      break;
+    }
+  }
+  if (labelEnd === -1 || text[labelEnd + 1] !== "(") return null;
+
+  depth = 0;
+  let destinationEnd = -1;
+  for (let j = labelEnd + 1; j < text.length; j++) {
+    if (text[j] === "(") depth++;
+    else if (text[j] === ")" && --depth === 0) {
+      destinationEnd = j;
+      break;
+    }
+  }
+  if (destinationEnd === -1) return null;
+
+  const destination = text.slice(labelEnd + 2, destinationEnd).trim();
+  const match = destination.match(/^<?([^\s>]*)>?(?:\s+["'(](.*)["')])?$/);
+  if (!match) return null;
+
+  return { label: text.slice(start + 1, labelEnd), url: match[1], title: match[2] ?? null, end: destinationEnd + 1 };
+};
+
+const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let buffer = "";
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: "text", text: buffer });
+    buffer = "";
+  };
+  const push = (node: InlineNode, end: number) => {
+    flush();
+    nodes.push(node);
+    i = end;
+  };
+
+  while (i < text.length) {
+    const c = text[i];
+
+    if (c === "\\" && ESCAPABLE.test(text[i + 1] ?? "")) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (c === "\n") {
+      buffer = buffer.trimEnd();
+      push({ type: "break" }, i + 1);
+      continue;
+    }
+
+    if (c === "`") {
+      const run = "`".repeat(runLength(text, i, "`"));
+      const close = text.indexOf(run, i + run.length);
+      if (close !== -1) {
+        const code = text.slice(i + run.length, close);
+        push({ type: "code", text: /^ .* $/.test(code) ? code.slice(1, -1) : code }, close + run.length);
+      } else {
+        buffer += run;
+        i += run.length;
+      }
+      continue;
+    }
+
+    if (text.startsWith("![", i)) {
+      const link = parseLinkAt(text, i + 1);
+      if (link) {
+        const src = safeImageUrl(link.url);
+        if (src) push({ type: "image", src, alt: link.label }, link.end);
+        else push({ type: "text", text: link.label }, link.end);
+        continue;
+      }
+    }
+
+    if (c === "[") {
+      const link = parseLinkAt(text, i);
+      if (link) {
+        const href = safeUrl(link.url);
+        const children = parseInline(link.label);
+        if (href) push({ type: "link", href, title: link.title, children }, link.end);
+        else {
+          flush();
+          nodes.push(...children);
+          i = link.end;
+        }
+        continue;
+      }
+    }
+
+    if (c === "<") {
+      const rest = text.slice(i);
+      const autolink = rest.match(/^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i);
+      if (autolink) {
+        push({ type: "link", href: autolink[1], title: null, children: [{ type: "text", text: autolink[1] }] }, i + autolink[0].length);
+        continue;
+      }
+
+      const tag = rest.match(/^<([a-z]+)\b[^<>]*>/i);
+      const name = tag?.[1].toLowerCase();
+      if (tag && name === "br") {
+        push({ type: "break" }, i + tag[0].length);
+        continue;
+      }
+      if (tag && name && ALLOWED_HTML_TAGS.includes(name)) {
+        const closeTag = new RegExp(`</${name}\\s*>`, "i");
+        const inner = text.slice(i + tag[0].length);
+        const close = inner.match(closeTag);
+        if (close && close.index !== undefined) {
+          push(
+            { type: "html", tag: name, children: parseInline(inner.slice(0, close.index)) },
+            i + tag[0].length + close.index + close[0].length
+          );
+          continue;
+        }
+      }
+    }
+
+    if ((c === "h" || c === "H") && !/\w/.test(text[i - 1] ?? "")) {
+      const url = text.slice(i).match(/^https?:\/\/[^\s<]*[^\s<.,:;"')\]!?*_~]/i);
+      if (url) {
+        push({ type: "link", href: url[0], title: null, children: [{ type: "text", text: url[0] }] }, i + url[0].length);
+        continue;
+      }
+    }
+
+    if (text.startsWith("~~", i)) {
+      const close = findClose(text, i + 2, "~~");
+      if (close !== -1) {
+        push({ type: "strike", children: parseInline(text.slice(i + 2, close)) }, close + 2);
+        continue;
+      }
+    }
+
+    if (c === "*" || c === "_") {
+      const double = text[i + 1] === c;
+      const delimiter = double ? c + c : c;
+      const after = text[i + delimiter.length] ?? "";
+      // Underscores inside words (snake_case) are not emphasis
+      const intraword = c === "_" && /\w/.test(text[i - 1] ?? "");
+      if (after && !/\s/.test(after) && !intraword) {
+        const close = findClose(text, i + delimiter.length, delimiter);
+        const closesWord = close !== -1 && !(c === "_" && /\w/.test(text[close + delimiter.length] ?? ""));
+        if (closesWord) {
+          push(
+            { type: double ? "strong" : "emphasis", children: parseInline(text.slice(i + delimiter.length, close)) },
+            close + delimiter.length
+          );
+          continue;
+        }
+      }
+      buffer += delimiter;
+      i += delimiter.length;
+      continue;
+    }
+
+    buffer += c;
+    i++;
+  }
+
+  flush();
+  return nodes;
+};
+
+// ---- Blocks ----
+
+export interface CodeFence {
+  language: string;
+  // Rest of the info string after the language, e.g. `title="app.js"`
+  meta: string;
+  code: string;
+  closed: boolean;
+  // Line the fence opens on and the line after it ends
+  start: number;
+  end: number;
+}
+
+// Reads the fenced code block opening at `start`, if there is one. A fence only
+// closes on a run of the same character at least as long, so longer fences can
+// wrap shorter ones.
+const readFence = (lines: string[], start: number): CodeFence | null => {
+  const fence = matchFence(lines[start]);
+  if (!fence) return null;
+
+  const indent = fence[1].length;
+  const body: string[] = [];
+  let closed = false;
+  let i = start + 1;
+  while (i < lines.length) {
+    if (isFenceClose(lines[i], fence[2])) {
+      closed = true;
+      i++;
+      break;
+    }
+    body.push(lines[i].slice(Math.min(indent, indentOf(lines[i]))));
+    i++;
+  }
+
+  return { language: fence[3], meta: fence[4].trim(), code: body.join("\n"), closed, start, end: i };
+};
+
+const splitRow = (line: string) => {
+  let row = line.trim();
+  if (row.startsWith("|")) row = row.slice(1);
+  if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+
+  const cells: string[] = [];
+  let cell = "";
+  let inCode = false;
+  for (let j = 0; j < row.length; j++) {
+    if (row[j] === "\\" && row[j + 1] === "|") {
+      cell += "|";
+      j++;
+    } else if (row[j] === "`") {
+      inCode = !inCode;
+      cell += "`";
+    } else if (row[j] === "|" && !inCode) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += row[j];
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const parseTable = (lines: string[], start: number) => {
+  const header = splitRow(lines[start]);
+  const align = splitRow(lines[start + 1]).map((cell): TableAlign => {
+    const left = cell.startsWith(":");
+    const right = cell.endsWith(":");
+    return left && right ? "center" : right ? "right" : left ? "left" : null;
+  });
+
+  const rows: InlineNode[][][] = [];
+  let i = start + 2;
+  while (i < lines.length && lines[i].trim() && lines[i].includes("|") && !startsBlock(lines, i)) {
+    const cells = splitRow(lines[i]);
+    rows.push(header.map((_, column) => parseInline(cells[column] ?? "")));
+    i++;
+  }
+
+  const node: BlockNode = {
+    type: "table",
+    align: header.map((_, column) => align[column] ?? null),
+    header: header.map((cell) => parseInline(cell)),
+    rows,
+  };
+  return { node, next: i };
+};
+
+const parseList = (lines: string[], start: number) => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: ListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const match = lines[i].match(LIST_ITEM);
+    if (!match || match[1].length < baseIndent || match[1].length > baseIndent + 1) break;
+    if (/\d/.test(match[2]) !== ordered) break;
+
+    const spacing = match[3].length > 4 || match[3].length === 0 ? 1 : match[3].length;
+    const contentIndent = match[1].length + match[2].length + spacing;
+    const itemLines = [match[4]];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (!line.trim()) {
+        let j = i + 1;
+        while (j < lines.length && !lines[j].trim()) j++;
+        if (j < lines.length && indentOf(lines[j]) >= contentIndent) {
+          itemLines.push("");
+          i++;
+          continue;
+        }
+        break;
+      }
+      if (indentOf(line) >= contentIndent) {
+        itemLines.push(line.slice(contentIndent));
+      } else if (!startsBlock(lines, i)) {
+        // Lazy continuation of the item's text
+        itemLines.push(line.trim());
+      } else {
+        break;
+      }
+      i++;
+    }
+
+    const task = itemLines[0].match(/^\[([ xX])\]\s+/);
+    if (task) itemLines[0] = itemLines[0].slice(task[0].length);
+    items.push({ checked: task ? task[1] !== " " : null, children: parseBlocks(itemLines) });
+
+    // Blank lines between items keep the list going
+    let next = i;
+    while (next < lines.length && !lines[next].trim()) next++;
+    if (next > i && next < lines.length && LIST_ITEM.test(lines[next])) i = next;
+  }
+
+  const node: BlockNode = { type: "list", ordered, start: ordered ? parseInt(first[2], 10) : 1, items };
+  return { node, next: i };
+};
+
+const parseBlocks = (lines: string[]): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = readFence(lines, i);
+    if (fence) {
+      blocks.push({ type: "code", language: fence.language || "code", code: fence.code, closed: fence.closed });
+      i = fence.end;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, children: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && BLOCKQUOTE.test(lines[i])) {
+        quoted.push(lines[i].replace(/^ {0,3}> ?/, ""));
+        i++;
+      }
+      blocks.push({ type: "blockquote", children: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const { node, next } = parseTable(lines, i);
+      blocks.push(node);
+      i = next;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line) && line.trim().length > 1) {
+      const { node, next } = parseList(lines, i);
+      blocks.push(node);
+      i = next;
+      continue;
+    }
+
+    if (/^\s*<video\b/i.test(line)) {
+      const start = i;
+      while (i < lines.length && !/<\/video>/i.test(lines[i])) i++;
+      const html = lines.slice(start, i + 1).join("\n");
+      i++;
+      const src = safeUrl(html.match(VIDEO_SOURCE)?.[1] ?? "");
+      if (src) blocks.push({ type: "video", src });
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join("\n")) });
+  }
+
+  return blocks;
+};
+
+// Parsed segments by source text. A streaming reply only ever changes its last
+// segment, so everything before it is reused instead of parsed again.
+const segmentCache = new Map<string, BlockNode[]>();
+const MAX_CACHED_SEGMENTS = 500;
+
+// "ordered" or "bullet" for a top-level list item, otherwise null
+const listKindOf = (line: string) => {
+  const match = line.match(LIST_ITEM);
+  return match && match[1].length === 0 ? (/\d/.test(match[2]) ? "ordered" : "bullet") : null;
+};
+
+/**
+ * Splits source at blank lines that separate top-level blocks. Blank lines
+ * inside code fences, followed by indented list content, or between items of
+ * the same list (a loose list) don't split.
+ */
+const splitSegments = (lines: string[]) => {
+  const segments: string[][] = [];
+  let current: string[] = [];
+  let fence: string | null = null;
+  // Kind of the top-level list the current segment ends in, if any
+  let list: string | null = null;
+
+  // The next non-blank line after each line, or null at the end
+  const nextLine: (string | null)[] = new Array(lines.length);
+  for (let j = lines.length - 1, next: string | null = null; j >= 0; j--) {
+    nextLine[j] = next;
+    if (lines[j].trim()) next = lines[j];
+  }
+
+  lines.forEach((line, index) => {
+    if (fence) {
+      if (isFenceClose(line, fence)) fence = null;
+    } else {
+      // Any other top-level block ends the list; plain text is a lazy continuation of its last item
+      if (line.trim() && indentOf(line) === 0) list = listKindOf(line) ?? (startsBlock(lines, index) ? null : list);
+      const open = matchFence(line);
+      if (open) fence = open[2];
+    }
+
+    const next = nextLine[index];
+    const endsBlock = next !== null && indentOf(next) === 0 && !(list && listKindOf(next) === list);
+    if (!fence && !line.trim() && current.length > 0 && endsBlock) {
+      segments.push(current);
+      current = [];
+      list = null;
+      return;
+    }
+    current.push(line);
+  });
+
+  if (current.length > 0) segments.push(current);
+  return segments;
+};
+
+const splitLines = (source: string) =>
+  source.replace(/\r\n?/g, "\n").split("\n").map((line) => line.replace(/^\t+/, (tabs) => "    ".repeat(tabs.length)));
+
+/**
+ * Every fenced code block in the source, found exactly as the renderer finds
+ * them. `start` and `end` index into the source's lines.
+ */
+export const findCodeFences = (source: string): CodeFence[] => {
+  const lines = splitLines(source);
+  const fences: CodeFence[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const fence = readFence(lines, i);
+    if (fence) {
+      fences.push(fence);
+      i = fence.end - 1;
+    }
+  }
+  return fences;
+};
+
+export const parseMarkdown = (source: string): BlockNode[] => {
+  const lines = splitLines(source);
+
+  return splitSegments(lines).flatMap((segment) => {
+    const key = segment.join("\n");
+    let blocks = segmentCache.get(key);
+    if (!blocks) {
+      blocks = parseBlocks(segment);
+      if (segmentCache.size >= MAX_CACHED_SEGMENTS) {
+        segmentCache.delete(segmentCache.keys().next().value!);
+      }
+      segmentCache.set(key, blocks);
+    }
+    return blocks;
+  });
+};
@@ -0,0 +1,96 @@
+// Messages form a tree through parent_id: edits and regenerations add a
+// sibling instead of replacing history. These helpers pick the branch shown.
+
+export interface TreeMessage {
+  id: string;
+  parent_id?: string | null;
+  created_at: string;
+}
+
+/** Key for a message's position among its siblings; top-level messages share ROOT_KEY */
+export const ROOT_KEY = "root";
+
+export type BranchSelections = Record<string, string>;
+
+export const parentKeyOf = (message: TreeMessage) => message.parent_id ?? ROOT_KEY;
+
+const groupChildren = <T extends TreeMessage>(messages: T[]) => {
+  const children = new Map<string, T[]>();
+  for (const message of messages) {
+    const key = parentKeyOf(message);
+    const siblings = children.get(key);
+    if (siblings) {
+      siblings.push(message);
+    } else {
+      children.set(key, [message]);
+    }
+  }
+  for (const siblings of children.values()) {
+    siblings.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+  return children;
+};
+
+/** Latest created_at anywhere in each message's subtree, so forks default to the most recent branch */
+const latestActivity = <T extends TreeMessage>(messages: T[], children: Map<string, T[]>) => {
+  const latest = new Map<string, string>();
+  const visit = (message: T): string => {
+    const cached = latest.get(message.id);
+    if (cached) return cached;
+    let max = message.created_at;
+    for (const child of children.get(message.id) ?? []) {
+      const childLatest = visit(child);
+      if (childLatest > max) max = childLatest;
+    }
+    latest.set(message.id, max);
+    return max;
+  };
+  messages.forEach(visit);
+  return latest;
+};
+
+/**
+ * Walks from the root down to a leaf, following `selections` at each fork and
+ * otherwise the branch with the most recent activity.
+ */
+export const getActivePath = <T extends TreeMessage>(messages: T[], selections: BranchSelections): T[] => {
+  const children = groupChildren(messages);
+  const latest = latestActivity(messages, children);
+  const path: T[] = [];
+  const seen = new Set<string>();
+  let key = ROOT_KEY;
+
+  while (true) {
+    const siblings = children.get(key);
+    if (!siblings || siblings.length === 0) break;
+
+    const selected = siblings.find((m) => m.id === selections[key])
+      ?? siblings.reduce((best, m) => (latest.get(m.id)! >= latest.get(best.id)! ? m : best));
+
+    if (seen.has(selected.id)) break;
+    seen.add(selected.id);
+    path.push(selected);
+    key = selected.id;
+  }
+
+  return path;
+};
+
+export const getSiblings = <T extends TreeMessage>(messages: T[], message: T): T[] =>
+  messages
+    .filter((m) => parentKeyOf(m) === parentKeyOf(message))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+/** Selections that make the active path run through `messageId` */
+export const selectionsForMessage = <T extends TreeMessage>(messages: T[], messageId: string): BranchSelections => {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const selections: BranchSelections = {};
+  let current = byId.get(messageId);
+
+  while (current && !(parentKeyOf(current) in selections)) {
+    selections[parentKeyOf(current)] = current.id;
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return selections;
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { estimateUsageCost, formatCost, IMAGE_MODEL } from "@/lib/models";
+
+describe("estimateUsageCost", () => {
+  it("prices prompt and completion tokens separately", () => {
+    const cost = estimateUsageCost({
+      model: "google/gemini-2.5-flash",
+      requests: 3,
+      prompt_tokens: 1_000_000,
+      completion_tokens: 200_000,
+    });
+    expect(cost).toBeCloseTo(0.3 + 0.5);
+  });
+
+  it("charges image models per image plus their prompt", () => {
+    const cost = estimateUsageCost({ model: IMAGE_MODEL, requests: 4, prompt_tokens: 10_000, completion_tokens: 5_160 });
+    expect(cost).toBeCloseTo(4 * 0.039 + 0.003);
+  });
+
+  it("has no estimate for an unknown model", () => {
+    expect(estimateUsageCost({ model: "acme/unknown", requests: 1, prompt_tokens: 1, completion_tokens: 1 })).toBeNull();
+  });
+});
+
+describe("formatCost", () => {
+  it.each([
+    [0, "$0.00"],
+    [0.00042, "$0.0004"],
+    [0.01, "$0.01"],
+    [12.345, "$12.35"],
+  ])("formats %f as %s", (dollars, expected) => {
+    expect(formatCost(dollars)).toBe(expected);
+  });
+});
@@ -0,0 +1,60 @@
+export interface ModelOption {
+  id: string;
+  label: string;
+}
+
+// US dollars at the provider's list price, used to estimate what usage cost
+export interface ModelPrice {
+  // Per million tokens
+  prompt: number;
+  completion: number;
+  // Per generated image, for image models; their output tokens aren't charged on top
+  image?: number;
+}
+
+// Keep in sync with ALLOWED_CHAT_MODELS in supabase/functions/_shared/models.ts
+export const DEFAULT_MODEL = "google/gemini-2.5-flash";
+
+export const MODEL_OPTIONS: ModelOption[] = [
+  { id: "google/gemini-2.5-pro", label: "Gemini 2.5 Pro" },
+  { id: "google/gemini-2.5-flash", label: "Gemini 2.5 Flash" },
+  { id: "google/gemini-2.5-flash-lite", label: "Gemini 2.5 Flash Lite" },
+  { id: "openai/gpt-5", label: "GPT-5" },
+  { id: "openai/gpt-5-mini", label: "GPT-5 Mini" },
+  { id: "openai/gpt-5-nano", label: "GPT-5 Nano" },
+];
+
+// Same as IMAGE_MODEL in supabase/functions/_shared/models.ts
+export const IMAGE_MODEL = "google/gemini-2.5-flash-image-preview";
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "google/gemini-2.5-pro": { prompt: 1.25, completion: 10 },
+  "google/gemini-2.5-flash": { prompt: 0.3, completion: 2.5 },
+  "google/gemini-2.5-flash-lite": { prompt: 0.1, completion: 0.4 },
+  "openai/gpt-5": { prompt: 1.25, completion: 10 },
+  "openai/gpt-5-mini": { prompt: 0.25, completion: 2 },
+  "openai/gpt-5-nano": { prompt: 0.05, completion: 0.4 },
+  [IMAGE_MODEL]: { prompt: 0.3, completion: 0, image: 0.039 },
+};
+
+export const getModelLabel = (id: string) =>
+  MODEL_OPTIONS.find((option) => option.id === id)?.label ?? (id === IMAGE_MODEL ? "Gemini 2.5 Flash Image" : id);
+
+interface UsageTotals {
+  model: string;
+  // Each image model request makes one image
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+/** Estimated cost in US dollars, or null for a model without a known price */
+export const estimateUsageCost = ({ model, requests, prompt_tokens, completion_tokens }: UsageTotals) => {
+  const price = MODEL_PRICES[model];
+  if (!price) return null;
+  return (prompt_tokens * price.prompt + completion_tokens * price.completion) / 1_000_000 + requests * (price.image ?? 0);
+};
+
+export const formatCost = (dollars: number) =>
+  // Small amounts would all round to $0.00
+  dollars > 0 && dollars < 0.01 ? `$${dollars.toFixed(4)}` : `$${dollars.toFixed(2)}`;
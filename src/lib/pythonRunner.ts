@@ -0,0 +1,111 @@
+import { createPythonSandbox, type PythonSandbox, type PythonSandboxMessage } from "@/lib/pythonSandbox";
+
+export const PYTHON_LANGUAGES = ["python", "py", "python3"];
+
+// Wall-clock limit for the code itself; loading the runtime doesn't count
+export const PYTHON_TIMEOUT_MS = 10_000;
+
+export type PythonStream = "stdout" | "stderr";
+
+export interface PythonOutput {
+  stream: PythonStream;
+  text: string;
+}
+
+export type PythonRunStatus = "ok" | "error" | "timeout" | "stopped";
+
+export interface PythonRunRequest {
+  code: string;
+}
+
+export type PythonWorkerMessage =
+  | { type: "output"; stream: PythonStream; text: string }
+  | { type: "started" }
+  | { type: "done"; ok: boolean };
+
+export interface PythonRun {
+  result: Promise<PythonRunStatus>;
+  stop: () => void;
+}
+
+interface PythonRunHandlers {
+  onOutput: (output: PythonOutput) => void;
+  onStart?: () => void;
+}
+
+let sandbox: PythonSandbox | null = null;
+// Runs share one interpreter, so they go one at a time
+let queue: Promise<unknown> = Promise.resolve();
+
+const getSandbox = () => {
+  sandbox ??= createPythonSandbox();
+  return sandbox;
+};
+
+// The only way to interrupt running Python; the next run starts a fresh interpreter
+const resetSandbox = () => {
+  sandbox?.destroy();
+  sandbox = null;
+};
+
+/**
+ * Runs Python in a WebAssembly interpreter inside a sandboxed worker. Output
+ * is streamed through `onOutput`; code still running after PYTHON_TIMEOUT_MS
+ * is killed.
+ */
+export const runPython = (code: string, handlers: PythonRunHandlers): PythonRun => {
+  let cancelled = false;
+  let stopActive: (() => void) | null = null;
+
+  const result = queue.then(
+    () =>
+      new Promise<PythonRunStatus>((resolve) => {
+        if (cancelled) {
+          resolve("stopped");
+          return;
+        }
+
+        const current = getSandbox();
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let settled = false;
+
+        const finish = (status: PythonRunStatus) => {
+          if (settled) return;
+          settled = true;
+          clearTimeout(timer);
+          unsubscribe();
+          if (status === "timeout" || status === "stopped") resetSandbox();
+          resolve(status);
+        };
+
+        const handleMessage = (message: PythonSandboxMessage) => {
+          if (message.type === "output") {
+            handlers.onOutput({ stream: message.stream, text: message.text });
+          } else if (message.type === "started") {
+            handlers.onStart?.();
+            timer = setTimeout(() => finish("timeout"), PYTHON_TIMEOUT_MS);
+          } else if (message.type === "failed") {
+            handlers.onOutput({ stream: "stderr", text: message.message });
+            resetSandbox();
+            finish("error");
+          } else {
+            finish(message.ok ? "ok" : "error");
+          }
+        };
+
+        stopActive = () => finish("stopped");
+        const unsubscribe = current.subscribe(handleMessage);
+        current.run({ code });
+      })
+  );
+
+  queue = result;
+
+  return {
+    result,
+    stop: () => {
+      cancelled = true;
+      stopActive?.();
+    },
+  };
+};
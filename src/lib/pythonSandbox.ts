@@ -0,0 +1,179 @@
+// The Pyodide runtime, emitted as assets so running Python never reaches out to a CDN
+import pyodideScriptUrl from "pyodide/pyodide.js?url";
+import pyodideAsmUrl from "pyodide/pyodide.asm.js?url";
+import pyodideWasmUrl from "pyodide/pyodide.asm.wasm?url";
+import pythonStdlibUrl from "pyodide/python_stdlib.zip?url";
+import pyodideLockUrl from "pyodide/pyodide-lock.json?url";
+import type { PythonRunRequest, PythonWorkerMessage } from "@/lib/pythonRunner";
+
+// Tags postMessage events from the sandbox frame so they can't be confused with other messages
+const PYTHON_SANDBOX_CHANNEL = "python-sandbox";
+
+// Keyed by the names Pyodide asks for; the frame can't fetch anything itself, so the bytes are sent in
+const RUNTIME_FILES: Record<string, string> = {
+  "pyodide.js": pyodideScriptUrl,
+  "pyodide.asm.js": pyodideAsmUrl,
+  "pyodide.asm.wasm": pyodideWasmUrl,
+  "python_stdlib.zip": pythonStdlibUrl,
+  "pyodide-lock.json": pyodideLockUrl,
+};
+
+// Never requested over the network: the worker answers fetches for it from the files it was sent
+const INDEX_URL = "https://pyodide.invalid/";
+
+export type PythonSandboxMessage = PythonWorkerMessage | { type: "failed"; message: string };
+
+export interface PythonSandbox {
+  run: (request: PythonRunRequest) => void;
+  subscribe: (listener: (message: PythonSandboxMessage) => void) => () => void;
+  destroy: () => void;
+}
+
+// Runs inside the worker. Only the standard library is available: packages would need the network.
+const WORKER = `
+var files = null;
+var runtime = null;
+
+var serve = function (input) {
+  var name = String(input instanceof Request ? input.url : input).split("/").pop();
+  var body = files[name];
+  if (!body) return Promise.resolve(new Response(null, { status: 404 }));
+  var type = name.slice(-5) === ".wasm" ? "application/wasm" : "application/octet-stream";
+  return Promise.resolve(new Response(body, { headers: { "Content-Type": type } }));
+};
+
+var scriptUrl = function (name) {
+  return URL.createObjectURL(new Blob([files[name]], { type: "text/javascript" }));
+};
+
+var loadRuntime = function () {
+  if (!runtime) {
+    self.fetch = serve;
+    if (typeof loadPyodide !== "function") importScripts(scriptUrl("pyodide.js"), scriptUrl("pyodide.asm.js"));
+    runtime = loadPyodide({ indexURL: ${JSON.stringify(INDEX_URL)} }).catch(function (error) {
+      // Let the next run try again instead of failing for good
+      runtime = null;
+      throw error;
+    });
+  }
+  return runtime;
+};
+
+var post = function (message) {
+  self.postMessage(message);
+};
+
+self.onmessage = async function (event) {
+  if (event.data.files) {
+    files = event.data.files;
+    return;
+  }
+  try {
+    var pyodide = await loadRuntime();
+    pyodide.setStdout({ batched: function (text) { post({ type: "output", stream: "stdout", text: text }); } });
+    pyodide.setStderr({ batched: function (text) { post({ type: "output", stream: "stderr", text: text }); } });
+
+    post({ type: "started" });
+    var result = await pyodide.runPythonAsync(event.data.code);
+    // Like the REPL, a trailing expression's value is shown
+    if (result !== undefined) post({ type: "output", stream: "stdout", text: String(result) });
+    post({ type: "done", ok: true });
+  } catch (error) {
+    post({ type: "output", stream: "stderr", text: error instanceof Error ? error.message : String(error) });
+    post({ type: "done", ok: false });
+  }
+};
+`;
+
+// Runs in the frame: starts the worker and relays messages between it and the parent page
+const FRAME_SCRIPT = `
+(function () {
+  var channel = ${JSON.stringify(PYTHON_SANDBOX_CHANNEL)};
+  var send = function (message) {
+    parent.postMessage({ channel: channel, message: message }, "*");
+  };
+  var worker = new Worker(URL.createObjectURL(new Blob([${JSON.stringify(WORKER)}], { type: "text/javascript" })));
+  worker.onmessage = function (event) {
+    send(event.data);
+  };
+  worker.onerror = function (event) {
+    send({ type: "failed", message: event.message || "The Python runtime failed to start" });
+  };
+  window.addEventListener("message", function (event) {
+    if (event.source !== parent || !event.data || event.data.channel !== channel) return;
+    worker.postMessage(event.data.message);
+  });
+})();
+`;
+
+// Inline scripts can't contain a closing script tag
+const escapeScript = (source: string) => source.replace(/<\/(script)/gi, "<\\/$1");
+
+// 'unsafe-eval' covers compiling the interpreter; with nothing else allowed the code can't make requests
+const FRAME_HTML = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:; worker-src blob:">
+<script>${escapeScript(FRAME_SCRIPT)}</script>
+</head>
+</html>`;
+
+const fetchRuntimeFiles = async () => {
+  const entries = await Promise.all(
+    Object.entries(RUNTIME_FILES).map(async ([name, url]) => {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`Couldn't load the Python runtime (${name}: ${response.status})`);
+      return [name, await response.arrayBuffer()] as const;
+    })
+  );
+  return Object.fromEntries(entries);
+};
+
+/**
+ * Starts a Python worker inside a hidden iframe with an opaque origin and a
+ * CSP that blocks all network access. The runtime is fetched from our own
+ * origin here and handed to the frame; destroying the sandbox removes the
+ * frame, which also kills whatever the worker is running.
+ */
+export const createPythonSandbox = (): PythonSandbox => {
+  const listeners = new Set<(message: PythonSandboxMessage) => void>();
+  const emit = (message: PythonSandboxMessage) => listeners.forEach((listener) => listener(message));
+
+  const frame = document.createElement("iframe");
+  frame.sandbox.add("allow-scripts");
+  frame.srcdoc = FRAME_HTML;
+  frame.style.display = "none";
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.source !== frame.contentWindow || event.data?.channel !== PYTHON_SANDBOX_CHANNEL) return;
+    emit(event.data.message);
+  };
+
+  const post = (message: PythonRunRequest | { files: Record<string, ArrayBuffer> }) =>
+    frame.contentWindow?.postMessage({ channel: PYTHON_SANDBOX_CHANNEL, message }, "*");
+
+  const loaded = new Promise((resolve) => frame.addEventListener("load", resolve, { once: true }));
+  const ready = Promise.all([fetchRuntimeFiles(), loaded]).then(([files]) => post({ files }));
+
+  window.addEventListener("message", handleMessage);
+  document.body.appendChild(frame);
+
+  return {
+    run: (request) => {
+      ready.then(
+        () => post(request),
+        (error) => emit({ type: "failed", message: error instanceof Error ? error.message : String(error) })
+      );
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    destroy: () => {
+      window.removeEventListener("message", handleMessage);
+      listeners.clear();
+      frame.remove();
+    },
+  };
+};
@@ -0,0 +1,135 @@
+// UMD builds, emitted as assets so the preview never reaches out to a CDN.
+// Package exports don't expose the umd/ folder, so vite.config.ts aliases it.
+import reactUrl from "react-umd/react.production.min.js?url";
+import reactDomUrl from "react-dom-umd/react-dom.production.min.js?url";
+
+export const REACT_PREVIEW_LANGUAGES = ["jsx", "tsx", "react"];
+
+// Tags postMessage events from the preview frame so they can't be confused with other messages
+export const PREVIEW_MESSAGE_CHANNEL = "codeblock-preview";
+
+export type PreviewLogLevel = "log" | "info" | "warn" | "error";
+
+export interface PreviewLogEntry {
+  level: PreviewLogLevel;
+  text: string;
+}
+
+export interface ReactPreview {
+  html: string | null;
+  // Set when the snippet couldn't be compiled; nothing is rendered then
+  error: string | null;
+}
+
+// Runs before the snippet: forwards console output and uncaught errors to the parent page
+const CONSOLE_BRIDGE = `
+(function () {
+  var channel = ${JSON.stringify(PREVIEW_MESSAGE_CHANNEL)};
+  var format = function (value) {
+    if (value instanceof Error) return value.stack || String(value);
+    if (typeof value === "string") return value;
+    try {
+      var seen = [];
+      return JSON.stringify(value, function (key, v) {
+        if (typeof v === "function") return "[Function " + (v.name || "anonymous") + "]";
+        if (typeof v === "object" && v !== null) {
+          if (seen.indexOf(v) !== -1) return "[Circular]";
+          seen.push(v);
+        }
+        return v;
+      }, 2) || String(value);
+    } catch (e) {
+      return String(value);
+    }
+  };
+  var send = function (level, args) {
+    parent.postMessage({ channel: channel, level: level, text: Array.prototype.map.call(args, format).join(" ") }, "*");
+  };
+  ["log", "info", "warn", "error"].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      send(level, arguments);
+      original.apply(console, arguments);
+    };
+  });
+  window.addEventListener("error", function (event) {
+    send("error", [event.error || event.message]);
+  });
+  window.addEventListener("unhandledrejection", function (event) {
+    send("error", ["Unhandled rejection:", event.reason]);
+  });
+})();
+`;
+
+const RUNNER = (compiled: string) => `
+(function () {
+  var modules = { react: React, "react-dom": ReactDOM, "react-dom/client": ReactDOM };
+  var require = function (name) {
+    if (name in modules) return modules[name];
+    throw new Error('Cannot import "' + name + '" in the preview: only react and react-dom are available');
+  };
+  var module = { exports: {} };
+  try {
+    (function (exports, module, require) {
+${compiled}
+    })(module.exports, module, require);
+    var Component = module.exports.default;
+    if (typeof Component !== "function" && !(Component && Component.$$typeof)) {
+      throw new Error("Nothing to render: add \`export default\` to the component you want to preview");
+    }
+    ReactDOM.createRoot(document.getElementById("root")).render(React.createElement(Component));
+  } catch (error) {
+    console.error(error);
+  }
+})();
+`;
+
+// Inline scripts can't contain a closing script tag
+const escapeScript = (source: string) => source.replace(/<\/(script)/gi, "<\\/$1");
+
+/**
+ * Compiles a JSX/TSX snippet into a self-contained document for a sandboxed
+ * iframe. The snippet's default export is rendered, and the CSP only lets it
+ * load the React runtime from our own origin.
+ */
+export const buildReactPreview = async (code: string, language: string): Promise<ReactPreview> => {
+  // Loaded on first use so the compiler stays out of the main bundle
+  const { transform } = await import("sucrase");
+
+  let compiled: string;
+  try {
+    compiled = transform(code, {
+      transforms: language.toLowerCase() === "jsx" ? ["jsx", "imports"] : ["jsx", "typescript", "imports"],
+      production: true,
+    }).code;
+  } catch (error) {
+    return { html: null, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const origin = window.location.origin;
+  const csp = [
+    "default-src 'none'",
+    `script-src 'unsafe-inline' ${origin}`,
+    "style-src 'unsafe-inline'",
+    "img-src data: blob:",
+    "font-src data:",
+  ].join("; ");
+
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta http-equiv="Content-Security-Policy" content="${csp}">
+<style>body { font-family: system-ui, sans-serif; padding: 16px; margin: 0; }</style>
+<script>${CONSOLE_BRIDGE}</script>
+<script src="${new URL(reactUrl, origin).href}"></script>
+<script src="${new URL(reactDomUrl, origin).href}"></script>
+</head>
+<body>
+<div id="root"></div>
+<script>${escapeScript(RUNNER(compiled))}</script>
+</body>
+</html>`;
+
+  return { html, error: null };
+};
@@ -0,0 +1,42 @@
+import { supabase } from "@/integrations/supabase/client";
+
+const BUCKET = "chat-files";
+const EXPIRES_IN_SECONDS = 3600;
+// Re-sign a little before expiry so an image never renders with a dead URL
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const cache = new Map<string, { url: string; expiresAt: number }>();
+let pending: { path: string; resolve: (url: string | null) => void }[] = [];
+
+const flush = async () => {
+  const batch = pending;
+  pending = [];
+
+  const paths = [...new Set(batch.map((request) => request.path))];
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrls(paths, EXPIRES_IN_SECONDS);
+  if (error) console.error("Failed to sign storage URLs:", error);
+
+  const expiresAt = Date.now() + EXPIRES_IN_SECONDS * 1000;
+  for (const entry of data || []) {
+    if (entry.path && entry.signedUrl) cache.set(entry.path, { url: entry.signedUrl, expiresAt });
+  }
+  for (const request of batch) {
+    request.resolve(cache.get(request.path)?.url ?? null);
+  }
+};
+
+/**
+ * Signed URL for a private chat-files object. Requests made in the same tick
+ * are signed in one call, and URLs are reused until they are close to expiring.
+ */
+export const getSignedUrl = (path: string): Promise<string | null> => {
+  const cached = cache.get(path);
+  if (cached && cached.expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+    return Promise.resolve(cached.url);
+  }
+
+  return new Promise((resolve) => {
+    if (pending.length === 0) queueMicrotask(flush);
+    pending.push({ path, resolve });
+  });
+};
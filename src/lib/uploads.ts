@@ -0,0 +1,76 @@
+import { supabase } from "@/integrations/supabase/client";
+import { edgeFunctionUrl, getEdgeFunctionHeaders, readEdgeFunctionError } from "@/lib/edgeFunctions";
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 10;
+
+/**
+ * Uploads straight to the Storage REST endpoint with XHR, since supabase-js
+ * has no upload progress callback. `onProgress` receives 0–100.
+ */
+export const uploadWithProgress = async (
+  bucket: string,
+  path: string,
+  file: File,
+  onProgress: (percent: number) => void
+): Promise<void> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const url = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/${bucket}/${path}`;
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", url);
+    xhr.setRequestHeader("Authorization", `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`);
+    xhr.setRequestHeader("apikey", import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY);
+    xhr.setRequestHeader("Content-Type", file.type || "application/octet-stream");
+    xhr.setRequestHeader("x-upsert", "false");
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(100);
+        resolve();
+        return;
+      }
+      let message = `Upload failed (${xhr.status})`;
+      try {
+        message = JSON.parse(xhr.responseText).message || message;
+      } catch {
+        // Non-JSON error body; keep the status message
+      }
+      reject(new Error(message));
+    };
+    xhr.onerror = () => reject(new Error("Network error during upload"));
+
+    xhr.send(file);
+  });
+};
+
+/**
+ * Has index-document extract and embed document attachments in the background.
+ * Chat inlines the extracted text until a file's chunks are ready, so a failure
+ * here only costs retrieval and is just logged.
+ */
+export const indexAttachments = async (attachments: { id: string; file_type: string | null }[]) => {
+  const documents = attachments.filter((a) => !a.file_type?.startsWith("image/"));
+  if (documents.length === 0) return;
+
+  const headers = await getEdgeFunctionHeaders();
+  await Promise.all(documents.map(async (attachment) => {
+    try {
+      const response = await fetch(edgeFunctionUrl("index-document"), {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ attachment_id: attachment.id }),
+      });
+      if (!response.ok) throw await readEdgeFunctionError(response, "Failed to index attachment");
+    } catch (error) {
+      console.error("Error indexing attachment:", error);
+    }
+  }));
+};
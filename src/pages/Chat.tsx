@@ -1,4 +1,4 @@
-import { useEffect, useState, useCallback } from "react";
+import { Fragment, useEffect, useState, useCallback, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -6,11 +6,13 @@ import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { Send, LogOut, Plus, Sparkles, Search, User, Paperclip, Download, FileIcon, Image as ImageIcon, Wand2, Mic, MicOff, Pencil, X, Check, Copy, Keyboard, RefreshCw, ThumbsUp, ThumbsDown, FileText } from "lucide-react";
+import { Send, LogOut, Plus, Sparkles, Search, User, Paperclip, Download, FileIcon, Image as ImageIcon, Wand2, Mic, MicOff, Pencil, X, Check, Copy, Keyboard, RefreshCw, ThumbsUp, ThumbsDown, FileText, Square, Settings2, ChevronRight, ChevronLeft, BookOpen, Shuffle, Layers } from "lucide-react";
 import { CodeBlock } from "@/components/CodeBlock";
+import { MarkdownContent } from "@/components/MarkdownContent";
 import { z } from "zod";
 import ThinkingAnimation from "@/components/ThinkingAnimation";
 import { useVoiceInput } from "@/hooks/useVoiceInput";
+import { useChatStream } from "@/hooks/useChatStream";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import {
   Tooltip,
@@ -18,21 +20,70 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DEFAULT_MODEL, MODEL_OPTIONS } from "@/lib/models";
+import { PersonaDialog, type Persona } from "@/components/PersonaDialog";
+import type { KnowledgeCollection } from "@/components/CollectionDialog";
+import { ConversationItem } from "@/components/ConversationItem";
+import { MessageSearchResults, type MessageSearchResult } from "@/components/MessageSearchResults";
+import { FeedbackDialog } from "@/components/FeedbackDialog";
+import { AttachmentTray, type PendingAttachment } from "@/components/AttachmentTray";
+import { MessageCitations } from "@/components/MessageCitations";
+import { StorageImage } from "@/components/StorageImage";
+import { ImageGenerationDialog, type ImageSource } from "@/components/ImageGenerationDialog";
+import { ArtifactPanel } from "@/components/ArtifactPanel";
+import type { ImageGenerationOptions } from "@/lib/imageOptions";
+import { extractArtifactFiles, type ArtifactFile } from "@/lib/artifacts";
+import type { ChatCitation, StreamChatResult } from "@/lib/chatStream";
+import { indexAttachments, MAX_ATTACHMENTS, MAX_ATTACHMENT_SIZE, uploadWithProgress } from "@/lib/uploads";
+import type { FeedbackCategory, FeedbackRating } from "@/lib/feedback";
+import { edgeFunctionUrl, getEdgeFunctionHeaders, readEdgeFunctionError } from "@/lib/edgeFunctions";
+import { getActivePath, getSiblings, parentKeyOf, selectionsForMessage, type BranchSelections } from "@/lib/messageTree";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+
+interface MessageAttachment {
+  id: string;
+  storage_path: string;
+  file_name: string;
+  file_type: string | null;
+  file_size: number | null;
+  position: number;
+}
 
 interface Message {
   id: string;
   role: "user" | "assistant";
   content: string;
   created_at: string;
-  file_url?: string | null;
-  file_name?: string | null;
-  file_type?: string | null;
-  file_size?: number | null;
+  parent_id?: string | null;
+  message_attachments?: MessageAttachment[];
+  citations?: ChatCitation[] | null;
+  source_message_id?: string | null;
 }
 
+const sortedAttachments = (message: Message) =>
+  [...(message.message_attachments || [])].sort((a, b) => a.position - b.position);
+
 interface Conversation {
   id: string;
   title: string;
+  model: string;
+  persona_id: string | null;
+  collection_id: string | null;
+  pinned: boolean;
+  archived_at: string | null;
+  summary: string | null;
+  summarized_through_id: string | null;
   created_at: string;
 }
 
@@ -49,21 +100,62 @@ const Chat = () => {
   const [user, setUser] = useState<any>(null);
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [currentConversation, setCurrentConversation] = useState<string | null>(null);
+  // Every message in the conversation tree; activeMessages is the branch being shown
   const [messages, setMessages] = useState<Message[]>([]);
+  const [branchSelections, setBranchSelections] = useState<BranchSelections>({});
   const [input, setInput] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
+  const [messageSearchResults, setMessageSearchResults] = useState<MessageSearchResult[]>([]);
+  const [isSearchingMessages, setIsSearchingMessages] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [pendingAttachments, setPendingAttachments] = useState<PendingAttachment[]>([]);
   const [isUploading, setIsUploading] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
   const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
   const [editingContent, setEditingContent] = useState("");
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
-  const [isAnalyzingFile, setIsAnalyzingFile] = useState(false);
   const [showImagePrompt, setShowImagePrompt] = useState(false);
-  const [imagePrompt, setImagePrompt] = useState("");
-  const [messageFeedback, setMessageFeedback] = useState<Record<string, 'up' | 'down' | null>>({});
+  const [imageSource, setImageSource] = useState<ImageSource | null>(null);
+  const [selectedModel, setSelectedModel] = useState(DEFAULT_MODEL);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [selectedPersonaId, setSelectedPersonaId] = useState<string | null>(null);
+  const [showPersonaDialog, setShowPersonaDialog] = useState(false);
+  const [collections, setCollections] = useState<KnowledgeCollection[]>([]);
+  const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(null);
+  const [editingPersona, setEditingPersona] = useState<Persona | null>(null);
+  const [messageFeedback, setMessageFeedback] = useState<Record<string, FeedbackRating | null>>({});
+  const [feedbackMessageId, setFeedbackMessageId] = useState<string | null>(null);
+  const [artifactMessageId, setArtifactMessageId] = useState<string | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { isStreaming, startStream, stopStream } = useChatStream();
+
+  const activeMessages = useMemo(
+    () => getActivePath(messages, branchSelections),
+    [messages, branchSelections]
+  );
+
+  // Replies with two or more related files can be opened in the workspace panel
+  const messageArtifacts = useMemo(() => {
+    const artifacts = new Map<string, ArtifactFile[]>();
+    for (const message of activeMessages) {
+      if (message.role !== "assistant") continue;
+      const files = extractArtifactFiles(message.content);
+      if (files.length > 0) artifacts.set(message.id, files);
+    }
+    return artifacts;
+  }, [activeMessages]);
+
+  const artifactFiles = artifactMessageId ? messageArtifacts.get(artifactMessageId) : undefined;
+
+  useEffect(() => {
+    setArtifactMessageId(null);
+  }, [currentConversation]);
+
+  // Messages up to and including this one reach the model only through the conversation summary
+  const summaryBoundaryId = conversations.find(c => c.id === currentConversation)?.summarized_through_id ?? null;
+  const summaryMarkerIndex = activeMessages.findIndex(m => m.id === summaryBoundaryId);
 
   const handleVoiceTranscript = useCallback((transcript: string) => {
     setInput((prev) => prev + (prev ? ' ' : '') + transcript);
@@ -111,21 +203,58 @@ const Chat = () => {
         e.preventDefault();
         toggleVoice();
       }
-      // Escape: Cancel editing or close image prompt
+      // Escape: Cancel editing (the image dialog closes itself)
       if (e.key === 'Escape') {
         if (editingMessageId) {
           cancelEditing();
         }
-        if (showImagePrompt) {
-          setShowImagePrompt(false);
-          setImagePrompt("");
-        }
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [voiceSupported, toggleVoice, editingMessageId, showImagePrompt]);
+  }, [voiceSupported, toggleVoice, editingMessageId]);
+
+  // Search message contents once the query settles
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (query.length < 2) {
+      setMessageSearchResults([]);
+      setIsSearchingMessages(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearchingMessages(true);
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.rpc("search_messages", { search_query: query });
+      if (cancelled) return;
+
+      if (error) {
+        console.error("Error searching messages:", error);
+        setMessageSearchResults([]);
+      } else {
+        setMessageSearchResults((data || []) as MessageSearchResult[]);
+      }
+      setIsSearchingMessages(false);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery]);
+
+  // Scroll a message opened from search into view and briefly highlight it
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const element = document.getElementById(`message-${highlightedMessageId}`);
+    if (!element) return;
+
+    element.scrollIntoView({ behavior: "smooth", block: "center" });
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [messages, highlightedMessageId]);
 
   const copyToClipboard = async (text: string) => {
     try {
@@ -137,7 +266,7 @@ const Chat = () => {
   };
 
   const exportConversation = useCallback(() => {
-    if (messages.length === 0) {
+    if (activeMessages.length === 0) {
       toast({ title: "No messages to export", variant: "destructive" });
       return;
     }
@@ -148,12 +277,12 @@ const Chat = () => {
     let content = `# ${title}\n\n`;
     content += `Exported on: ${new Date().toLocaleString()}\n\n---\n\n`;
     
-    messages.forEach((msg) => {
+    activeMessages.forEach((msg) => {
       const role = msg.role === "user" ? "You" : "Tvog AI";
       const time = new Date(msg.created_at).toLocaleString();
       content += `**${role}** (${time}):\n\n${msg.content}\n\n`;
-      if (msg.file_name) {
-        content += `📎 Attached: ${msg.file_name}\n\n`;
+      for (const attachment of sortedAttachments(msg)) {
+        content += `📎 Attached: ${attachment.file_name}\n\n`;
       }
       content += "---\n\n";
     });
@@ -166,7 +295,7 @@ const Chat = () => {
     a.click();
     URL.revokeObjectURL(url);
     toast({ title: "Conversation exported" });
-  }, [messages, conversations, currentConversation, toast]);
+  }, [activeMessages, conversations, currentConversation, toast]);
 
   const downloadImage = async (src: string, filename: string = 'generated-image.png') => {
     try {
@@ -184,122 +313,143 @@ const Chat = () => {
     }
   };
 
-  const handleFeedback = (messageId: string, feedback: 'up' | 'down') => {
-    setMessageFeedback(prev => ({
-      ...prev,
-      [messageId]: prev[messageId] === feedback ? null : feedback
-    }));
+  const saveFeedback = async (
+    messageId: string,
+    feedback: FeedbackRating,
+    details: { category: FeedbackCategory | null; reason: string | null } = { category: null, reason: null }
+  ) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from("message_feedback")
+      .upsert(
+        { message_id: messageId, user_id: user.id, rating: feedback, ...details },
+        { onConflict: "message_id,user_id" }
+      );
+
+    if (error) {
+      toast({ title: "Failed to save feedback", variant: "destructive" });
+      return;
+    }
+
+    setMessageFeedback(prev => ({ ...prev, [messageId]: feedback }));
     toast({ 
       title: feedback === 'up' ? "Thanks for the feedback!" : "We'll try to improve",
       description: feedback === 'up' ? "Glad this was helpful" : "Your feedback helps us get better"
     });
   };
 
-  const regenerateResponse = async (messageIndex: number) => {
-    if (!currentConversation || isLoading) return;
-    
-    // Find the user message before this assistant message
-    const userMessageIndex = messageIndex - 1;
-    if (userMessageIndex < 0 || messages[userMessageIndex]?.role !== 'user') return;
-    
-    const userMessage = messages[userMessageIndex];
-    
-    // Delete the current assistant message
-    const assistantMessage = messages[messageIndex];
-    await supabase.from("messages").delete().eq("id", assistantMessage.id);
-    
-    // Remove from local state
-    setMessages(prev => prev.filter((_, i) => i !== messageIndex));
-    
-    setIsLoading(true);
-    
-    try {
-      const allMessages = messages.slice(0, messageIndex);
-      
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-          },
-          body: JSON.stringify({ messages: allMessages }),
-        }
-      );
+  const handleFeedback = async (messageId: string, feedback: FeedbackRating) => {
+    if (!user) return;
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to get response");
+    // Clicking the active rating again clears it
+    if (messageFeedback[messageId] === feedback) {
+      const { error } = await supabase
+        .from("message_feedback")
+        .delete()
+        .eq("message_id", messageId)
+        .eq("user_id", user.id);
+
+      if (error) {
+        toast({ title: "Failed to remove feedback", variant: "destructive" });
+        return;
       }
+      setMessageFeedback(prev => ({ ...prev, [messageId]: null }));
+      return;
+    }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let newAssistantMessage = "";
+    if (feedback === 'down') {
+      // Ask for an optional reason before saving
+      setFeedbackMessageId(messageId);
+      return;
+    }
 
-      if (!reader) throw new Error("No response stream");
+    saveFeedback(messageId, feedback);
+  };
 
-      let buffer = "";
+  // Streams the chat function's reply to `parentId` into the tree as a new branch.
+  // The function stores the reply itself, so we only swap in its id once the stream ends.
+  const streamAssistantReply = async (conversationId: string, parentId: string) => {
+    const tempId = crypto.randomUUID();
+    setBranchSelections(prev => ({ ...prev, [parentId]: tempId }));
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+    // Sources arrive before the first delta
+    let citations: ChatCitation[] | null = null;
 
-        buffer += decoder.decode(value, { stream: true });
+    let result: StreamChatResult;
+    try {
+      result = await startStream({
+        body: { conversation_id: conversationId, parent_id: parentId },
+        onEvent: (event) => {
+          if (event.type === "citations") citations = event.citations;
+        },
+        onDelta: (content) => {
+          setMessages((prev) => {
+            if (prev.some(m => m.id === tempId)) {
+              return prev.map(m => m.id === tempId ? { ...m, content } : m);
+            }
+            return [
+              ...prev,
+              {
+                id: tempId,
+                role: "assistant",
+                content,
+                created_at: new Date().toISOString(),
+                parent_id: parentId,
+                citations,
+              },
+            ];
+          });
+        },
+      });
+    } catch (error) {
+      // The temp id was never stored, so it must not become the parent of the next message.
+      // Whatever the function managed to save is picked up from the database instead.
+      setMessages(prev => prev.filter(m => m.id !== tempId));
+      setBranchSelections(prev => {
+        const { [parentId]: _failed, ...rest } = prev;
+        return rest;
+      });
+      await loadMessages(conversationId);
+      throw error;
+    }
 
-        let newlineIndex: number;
-        while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
-          let line = buffer.slice(0, newlineIndex);
-          buffer = buffer.slice(newlineIndex + 1);
+    const { messageId, summarizedThroughId } = result;
 
-          if (line.endsWith("\r")) line = line.slice(0, -1);
-          if (line.startsWith(":") || line.trim() === "") continue;
-          if (!line.startsWith("data: ")) continue;
+    if (messageId) {
+      setMessages((prev) => prev.map(m => m.id === tempId ? { ...m, id: messageId } : m));
+      setBranchSelections(prev => ({ ...prev, [parentId]: messageId }));
+    }
 
-          const jsonStr = line.slice(6).trim();
-          if (jsonStr === "[DONE]") break;
+    if (summarizedThroughId) {
+      setConversations(prev => prev.map(c =>
+        c.id === conversationId ? { ...c, summarized_through_id: summarizedThroughId } : c
+      ));
+    }
+  };
 
-          try {
-            const parsed = JSON.parse(jsonStr);
-            const content = parsed.choices?.[0]?.delta?.content;
-            if (content) {
-              newAssistantMessage += content;
-              setMessages((prev) => {
-                const last = prev[prev.length - 1];
-                if (last?.role === "assistant") {
-                  return prev.map((m, i) =>
-                    i === prev.length - 1 ? { ...m, content: newAssistantMessage } : m
-                  );
-                }
-                return [
-                  ...prev,
-                  {
-                    id: crypto.randomUUID(),
-                    role: "assistant",
-                    content: newAssistantMessage,
-                    created_at: new Date().toISOString(),
-                  },
-                ];
-              });
-            }
-          } catch (e) {
-            buffer = line + "\n" + buffer;
-            break;
-          }
-        }
-      }
+  // Switches to the previous or next alternative of a message
+  const switchBranch = (message: Message, direction: -1 | 1) => {
+    const siblings = getSiblings(messages, message);
+    const target = siblings[siblings.indexOf(message) + direction];
+    if (!target) return;
+    setBranchSelections(prev => ({ ...prev, [parentKeyOf(message)]: target.id }));
+  };
 
-      await supabase.from("messages").insert({
-        conversation_id: currentConversation,
-        role: "assistant",
-        content: newAssistantMessage,
-      });
+  // Adds a sibling reply to the same user message; the previous reply stays reachable
+  const regenerateResponse = async (assistantMessage: Message) => {
+    if (!currentConversation || isLoading || !assistantMessage.parent_id) return;
+    
+    setIsLoading(true);
+    
+    try {
+      await streamAssistantReply(currentConversation, assistantMessage.parent_id);
 
       toast({ title: "Response regenerated" });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error",
-        description: error.message,
+        description: error instanceof Error ? error.message : "Failed to regenerate the response",
         variant: "destructive",
       });
     } finally {
@@ -316,6 +466,8 @@ const Chat = () => {
       }
       setUser(session.user);
       loadConversations(session.user.id);
+      loadPersonas(session.user.id);
+      loadCollections(session.user.id);
     };
 
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -338,6 +490,7 @@ const Chat = () => {
       .from("conversations")
       .select("*")
       .eq("user_id", userId)
+      .order("pinned", { ascending: false })
       .order("updated_at", { ascending: false });
 
     if (error) {
@@ -348,10 +501,40 @@ const Chat = () => {
     setConversations(data || []);
   };
 
+  const loadPersonas = async (userId: string) => {
+    const { data, error } = await supabase
+      .from("personas")
+      .select("*")
+      .eq("user_id", userId)
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("Error loading personas:", error);
+      return;
+    }
+
+    setPersonas((data || []) as Persona[]);
+  };
+
+  const loadCollections = async (userId: string) => {
+    const { data, error } = await supabase
+      .from("knowledge_collections")
+      .select("id, name, description, created_at")
+      .eq("user_id", userId)
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("Error loading collections:", error);
+      return;
+    }
+
+    setCollections((data || []) as KnowledgeCollection[]);
+  };
+
   const loadMessages = async (conversationId: string) => {
     const { data, error } = await supabase
       .from("messages")
-      .select("*")
+      .select("*, message_attachments(id, storage_path, file_name, file_type, file_size, position)")
       .eq("conversation_id", conversationId)
       .order("created_at", { ascending: true });
 
@@ -360,7 +543,31 @@ const Chat = () => {
       return;
     }
 
-    setMessages((data || []) as Message[]);
+    const loaded = (data || []) as Message[];
+    setMessages(loaded);
+    loadFeedback(loaded.filter(m => m.role === "assistant").map(m => m.id));
+    return loaded;
+  };
+
+  const loadFeedback = async (messageIds: string[]) => {
+    if (messageIds.length === 0) {
+      setMessageFeedback({});
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("message_feedback")
+      .select("message_id, rating")
+      .in("message_id", messageIds);
+
+    if (error) {
+      console.error("Error loading feedback:", error);
+      return;
+    }
+
+    setMessageFeedback(Object.fromEntries(
+      (data || []).map((f) => [f.message_id, f.rating as FeedbackRating])
+    ));
   };
 
   const createNewConversation = async () => {
@@ -368,7 +575,7 @@ const Chat = () => {
 
     const { data, error } = await supabase
       .from("conversations")
-      .insert({ user_id: user.id, title: "New Chat" })
+      .insert({ user_id: user.id, title: "New Chat", model: selectedModel, persona_id: selectedPersonaId, collection_id: selectedCollectionId })
       .select()
       .single();
 
@@ -383,50 +590,261 @@ const Chat = () => {
 
     setCurrentConversation(data.id);
     setMessages([]);
+    setBranchSelections({});
     loadConversations(user.id);
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      // Check file size (max 10MB)
-      if (file.size > 10 * 1024 * 1024) {
+  const updateConversation = async (conversationId: string, changes: Partial<Conversation>) => {
+    const { error } = await supabase
+      .from("conversations")
+      .update(changes)
+      .eq("id", conversationId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update conversation",
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    if (user) loadConversations(user.id);
+    return true;
+  };
+
+  const renameConversation = (conversationId: string, title: string) =>
+    updateConversation(conversationId, { title });
+
+  const togglePinConversation = (conversation: Conversation) =>
+    updateConversation(conversation.id, { pinned: !conversation.pinned });
+
+  const toggleArchiveConversation = async (conversation: Conversation) => {
+    const archiving = !conversation.archived_at;
+    // Archived conversations drop out of the pinned list
+    const updated = await updateConversation(conversation.id, archiving
+      ? { archived_at: new Date().toISOString(), pinned: false }
+      : { archived_at: null });
+
+    if (updated) {
+      toast({ title: archiving ? "Conversation archived" : "Conversation restored" });
+    }
+  };
+
+  const deleteConversation = async (conversationId: string) => {
+    // Remove attached files first: the storage delete policy checks the owning message,
+    // which disappears once the conversation cascade-deletes its messages
+    const { data: attachments } = await supabase
+      .from("message_attachments")
+      .select("storage_path, messages!inner(conversation_id)")
+      .eq("messages.conversation_id", conversationId);
+
+    // Edited messages share their original's files, so paths can repeat
+    const filePaths = [...new Set((attachments || []).map((a) => a.storage_path as string))];
+    if (filePaths.length > 0) {
+      const { error: storageError } = await supabase.storage
+        .from("chat-files")
+        .remove(filePaths);
+
+      if (storageError) {
+        console.error("Error removing conversation files:", storageError);
+      }
+    }
+
+    const { error } = await supabase
+      .from("conversations")
+      .delete()
+      .eq("id", conversationId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete conversation",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (currentConversation === conversationId) {
+      setCurrentConversation(null);
+      setMessages([]);
+      setBranchSelections({});
+    }
+    setConversations(prev => prev.filter(c => c.id !== conversationId));
+    toast({ title: "Conversation deleted" });
+  };
+
+  // Summarizes the first exchange into a short title; quiet unless the user asked for it
+  const generateTitle = async (conversationId: string, notify = false) => {
+    try {
+      const response = await fetch(edgeFunctionUrl("generate-title"), {
+        method: "POST",
+        headers: await getEdgeFunctionHeaders(),
+        body: JSON.stringify({ conversation_id: conversationId }),
+      });
+
+      if (!response.ok) {
+        throw await readEdgeFunctionError(response, "Failed to generate title");
+      }
+
+      const { title } = await response.json();
+      setConversations(prev => prev.map(c =>
+        c.id === conversationId ? { ...c, title } : c
+      ));
+      if (notify) toast({ title: "Title updated", description: title });
+    } catch (error) {
+      console.error("Title generation failed:", error);
+      if (notify) {
         toast({
-          title: "File too large",
-          description: "Maximum file size is 10MB",
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to generate title",
           variant: "destructive",
         });
-        return;
       }
-      setSelectedFile(file);
     }
   };
 
-  const uploadFile = async (file: File, conversationId: string): Promise<{ url: string; name: string; type: string; size: number } | null> => {
-    try {
-      setIsUploading(true);
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${conversationId}/${crypto.randomUUID()}.${fileExt}`;
-      
-      const { error: uploadError } = await supabase.storage
-        .from('chat-files')
-        .upload(fileName, file);
+  const selectConversation = (conv: Conversation) => {
+    setCurrentConversation(conv.id);
+    setSelectedModel(conv.model || DEFAULT_MODEL);
+    setSelectedPersonaId(conv.persona_id ?? null);
+    setSelectedCollectionId(conv.collection_id ?? null);
+    setBranchSelections({});
+    return loadMessages(conv.id);
+  };
+
+  const openSearchResult = async (result: MessageSearchResult) => {
+    const conv = conversations.find(c => c.id === result.conversation_id);
+    let loaded: Message[] | undefined;
+    if (conv) {
+      loaded = await selectConversation(conv);
+    } else {
+      setCurrentConversation(result.conversation_id);
+      setBranchSelections({});
+      loaded = await loadMessages(result.conversation_id);
+    }
+    // The hit may sit on a branch that isn't shown by default
+    if (loaded) {
+      setBranchSelections(selectionsForMessage(loaded, result.message_id));
+    }
+    setHighlightedMessageId(result.message_id);
+  };
 
-      if (uploadError) throw uploadError;
+  const addFiles = (files: File[]) => {
+    if (files.length === 0) return;
 
-      return {
-        url: fileName,
-        name: file.name,
-        type: file.type,
-        size: file.size,
-      };
-    } catch (error: any) {
+    const tooLarge = files.filter((file) => file.size > MAX_ATTACHMENT_SIZE);
+    if (tooLarge.length > 0) {
       toast({
-        title: "Upload failed",
-        description: error.message,
+        title: tooLarge.length === 1 ? "File too large" : "Some files are too large",
+        description: `${tooLarge.map((f) => f.name).join(", ")}: maximum file size is 10MB`,
         variant: "destructive",
       });
-      return null;
+    }
+
+    const accepted = files.filter((file) => file.size <= MAX_ATTACHMENT_SIZE);
+    const room = Math.max(MAX_ATTACHMENTS - pendingAttachments.length, 0);
+    if (accepted.length > room) {
+      toast({
+        title: "Too many files",
+        description: `You can attach up to ${MAX_ATTACHMENTS} files per message`,
+        variant: "destructive",
+      });
+    }
+
+    setPendingAttachments((prev) => [
+      ...prev,
+      ...accepted.slice(0, room).map((file) => ({
+        id: crypto.randomUUID(),
+        file,
+        progress: 0,
+        status: "queued" as const,
+      })),
+    ]);
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []));
+    // Allow picking the same file again after removing it
+    e.target.value = "";
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDraggingFiles(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDraggingFiles(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    if (isLoading || isUploading) return;
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const updatePendingAttachment = (id: string, changes: Partial<PendingAttachment>) => {
+    setPendingAttachments((prev) => prev.map((a) => (a.id === id ? { ...a, ...changes } : a)));
+  };
+
+  // Uploads every pending file in parallel; resolves null if any failed so the user can retry or remove it.
+  // Files that made it on an earlier attempt are not uploaded again.
+  const uploadAttachments = async (conversationId: string, attachments: PendingAttachment[]) => {
+    setIsUploading(true);
+    try {
+      const results = await Promise.all(
+        attachments.map(async (attachment) => {
+          const { file } = attachment;
+          const fileExt = file.name.split('.').pop();
+          const storagePath = attachment.storagePath ?? `${conversationId}/${crypto.randomUUID()}.${fileExt}`;
+          const uploadedFile = {
+            storage_path: storagePath,
+            file_name: file.name,
+            file_type: file.type || null,
+            file_size: file.size,
+          };
+
+          if (attachment.status === "done" && attachment.storagePath) return uploadedFile;
+
+          updatePendingAttachment(attachment.id, { status: "uploading", progress: 0, error: undefined });
+          try {
+            await uploadWithProgress("chat-files", storagePath, file, (progress) =>
+              updatePendingAttachment(attachment.id, { progress })
+            );
+            updatePendingAttachment(attachment.id, { status: "done", progress: 100, storagePath });
+            return uploadedFile;
+          } catch (error) {
+            updatePendingAttachment(attachment.id, {
+              status: "error",
+              error: error instanceof Error ? error.message : "Upload failed",
+            });
+            return null;
+          }
+        })
+      );
+
+      if (results.some((result) => result === null)) {
+        toast({
+          title: "Upload failed",
+          description: "Some files could not be uploaded. Remove them or try sending again.",
+          variant: "destructive",
+        });
+        return null;
+      }
+
+      return results as NonNullable<(typeof results)[number]>[];
     } finally {
       setIsUploading(false);
     }
@@ -437,7 +855,7 @@ const Chat = () => {
     if (!user || isLoading || isUploading) return;
 
     // Require either message or file
-    if (!input.trim() && !selectedFile) {
+    if (!input.trim() && pendingAttachments.length === 0) {
       toast({
         title: "Cannot send empty message",
         description: "Please enter a message or attach a file",
@@ -463,11 +881,13 @@ const Chat = () => {
     }
 
     let conversationId = currentConversation;
+    const isFirstExchange = activeMessages.length === 0;
+    const parentId = activeMessages[activeMessages.length - 1]?.id ?? null;
 
     if (!conversationId) {
       const { data, error } = await supabase
         .from("conversations")
-        .insert({ user_id: user.id, title: input.slice(0, 50) })
+        .insert({ user_id: user.id, title: input.slice(0, 50), model: selectedModel, persona_id: selectedPersonaId, collection_id: selectedCollectionId })
         .select()
         .single();
 
@@ -485,33 +905,26 @@ const Chat = () => {
       loadConversations(user.id);
     }
 
-    // Upload file if selected
-    let fileData: { url: string; name: string; type: string; size: number } | null = null;
-    if (selectedFile) {
-      fileData = await uploadFile(selectedFile, conversationId);
-      if (!fileData) return; // Upload failed
+    let uploaded: Awaited<ReturnType<typeof uploadAttachments>> = [];
+    if (pendingAttachments.length > 0) {
+      uploaded = await uploadAttachments(conversationId, pendingAttachments);
+      if (!uploaded) return;
     }
 
-    const userMessage = { 
-      role: "user" as const, 
-      content: input || (fileData ? `Sent file: ${fileData.name}` : ""),
-      file_url: fileData?.url,
-      file_name: fileData?.name,
-      file_type: fileData?.type,
-      file_size: fileData?.size,
-    };
-    
-    const { error: insertError } = await supabase
+    const content = input || (uploaded.length === 1
+      ? `Sent file: ${uploaded[0].file_name}`
+      : uploaded.length > 1 ? `Sent ${uploaded.length} files` : "");
+
+    const { data: insertedMessage, error: insertError } = await supabase
       .from("messages")
       .insert({
         conversation_id: conversationId,
-        role: userMessage.role,
-        content: userMessage.content,
-        file_url: userMessage.file_url,
-        file_name: userMessage.file_name,
-        file_type: userMessage.file_type,
-        file_size: userMessage.file_size,
-      });
+        parent_id: parentId,
+        role: "user",
+        content,
+      })
+      .select()
+      .single();
 
     if (insertError) {
       toast({
@@ -522,144 +935,87 @@ const Chat = () => {
       return;
     }
 
+    if (uploaded.length > 0) {
+      const { data: savedAttachments, error: attachmentError } = await supabase
+        .from("message_attachments")
+        .insert(uploaded.map((file, position) => ({ ...file, message_id: insertedMessage.id, position })))
+        .select("id, file_type");
+
+      if (attachmentError) {
+        toast({
+          title: "Error",
+          description: "Failed to save attachments",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      // Not awaited: the reply doesn't wait for long files to be embedded
+      indexAttachments(savedAttachments || []);
+    }
+
     setInput("");
-    setSelectedFile(null);
+    setPendingAttachments([]);
     setIsLoading(true);
 
     await loadMessages(conversationId);
 
     try {
-      // If a file was uploaded, analyze it directly instead of regular chat
-      if (fileData) {
-        setIsAnalyzingFile(true);
-        try {
-          const { data: signedUrlData } = await supabase.storage
-            .from('chat-files')
-            .createSignedUrl(fileData.url, 3600);
-
-          if (signedUrlData?.signedUrl) {
-            const analyzeResponse = await fetch(
-              `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-file`,
-              {
-                method: "POST",
-                headers: {
-                  "Content-Type": "application/json",
-                  Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-                },
-                body: JSON.stringify({
-                  fileUrl: signedUrlData.signedUrl,
-                  fileType: fileData.type,
-                  fileName: fileData.name,
-                  prompt: input.trim() || `Analyze this ${fileData.type?.startsWith('image/') ? 'image' : 'file'} and provide detailed insights.`
-                }),
-              }
-            );
+      // Attachments are read by the chat function from the message itself, on this turn and later ones
+      await streamAssistantReply(conversationId, insertedMessage.id);
 
-            if (analyzeResponse.ok) {
-              const { analysis } = await analyzeResponse.json();
-              await supabase.from("messages").insert({
-                conversation_id: conversationId,
-                role: "assistant",
-                content: analysis,
-              });
-              await loadMessages(conversationId);
-            } else {
-              throw new Error("Failed to analyze file");
-            }
-          }
-        } catch (analyzeError: any) {
-          console.error("File analysis failed:", analyzeError);
-          toast({
-            title: "Analysis failed",
-            description: analyzeError.message || "Could not analyze the file",
-            variant: "destructive",
-          });
-        } finally {
-          setIsAnalyzingFile(false);
-        }
-      } else {
-        // Regular chat without file
-        const allMessages = [...messages, userMessage];
-        
-        const response = await fetch(
-          `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`,
-          {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-            },
-            body: JSON.stringify({ messages: allMessages }),
-          }
-        );
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.error || "Failed to get response");
-        }
-
-        const reader = response.body?.getReader();
-        const decoder = new TextDecoder();
-        let assistantMessage = "";
-
-        if (!reader) throw new Error("No response stream");
-
-        let buffer = "";
+      await supabase
+        .from("conversations")
+        .update({ updated_at: new Date().toISOString() })
+        .eq("id", conversationId);
 
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
+      loadConversations(user.id);
+      if (isFirstExchange) {
+        generateTitle(conversationId);
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send message",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-          buffer += decoder.decode(value, { stream: true });
+  // Posts a message on the user's behalf, such as the output of a code block they ran
+  const sendFollowUp = async (content: string) => {
+    if (!user || !currentConversation || isLoading) return;
 
-          let newlineIndex: number;
-          while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
-            let line = buffer.slice(0, newlineIndex);
-            buffer = buffer.slice(newlineIndex + 1);
+    const conversationId = currentConversation;
+    const parentId = activeMessages[activeMessages.length - 1]?.id ?? null;
 
-            if (line.endsWith("\r")) line = line.slice(0, -1);
-            if (line.startsWith(":") || line.trim() === "") continue;
-            if (!line.startsWith("data: ")) continue;
+    const { data: insertedMessage, error: insertError } = await supabase
+      .from("messages")
+      .insert({
+        conversation_id: conversationId,
+        parent_id: parentId,
+        role: "user",
+        content: content.slice(0, MAX_MESSAGE_LENGTH),
+      })
+      .select()
+      .single();
 
-            const jsonStr = line.slice(6).trim();
-            if (jsonStr === "[DONE]") break;
+    if (insertError) {
+      toast({
+        title: "Error",
+        description: "Failed to save message",
+        variant: "destructive",
+      });
+      return;
+    }
 
-            try {
-              const parsed = JSON.parse(jsonStr);
-              const content = parsed.choices?.[0]?.delta?.content;
-              if (content) {
-                assistantMessage += content;
-                setMessages((prev) => {
-                  const last = prev[prev.length - 1];
-                  if (last?.role === "assistant") {
-                    return prev.map((m, i) =>
-                      i === prev.length - 1 ? { ...m, content: assistantMessage } : m
-                    );
-                  }
-                  return [
-                    ...prev,
-                    {
-                      id: crypto.randomUUID(),
-                      role: "assistant",
-                      content: assistantMessage,
-                      created_at: new Date().toISOString(),
-                    },
-                  ];
-                });
-              }
-            } catch (e) {
-              buffer = line + "\n" + buffer;
-              break;
-            }
-          }
-        }
+    setIsLoading(true);
+    await loadMessages(conversationId);
 
-        await supabase.from("messages").insert({
-          conversation_id: conversationId,
-          role: "assistant",
-          content: assistantMessage,
-        });
-      }
+    try {
+      await streamAssistantReply(conversationId, insertedMessage.id);
 
       await supabase
         .from("conversations")
@@ -667,10 +1023,10 @@ const Chat = () => {
         .eq("id", conversationId);
 
       loadConversations(user.id);
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Error",
-        description: error.message,
+        description: error instanceof Error ? error.message : "Failed to get a response",
         variant: "destructive",
       });
     } finally {
@@ -688,14 +1044,23 @@ const Chat = () => {
     setEditingContent("");
   };
 
+  // Saves the edit as a sibling of the original message so the old branch stays reachable
   const saveEditedMessage = async (messageId: string) => {
     if (!editingContent.trim() || !currentConversation) return;
 
-    // Update the message in database
-    const { error } = await supabase
+    const original = messages.find(m => m.id === messageId);
+    if (!original) return;
+
+    const { data: editedMessage, error } = await supabase
       .from("messages")
-      .update({ content: editingContent })
-      .eq("id", messageId);
+      .insert({
+        conversation_id: currentConversation,
+        parent_id: original.parent_id ?? null,
+        role: "user",
+        content: editingContent,
+      })
+      .select()
+      .single();
 
     if (error) {
       toast({
@@ -706,118 +1071,150 @@ const Chat = () => {
       return;
     }
 
-    // Delete all messages after this one and regenerate response
-    const messageIndex = messages.findIndex(m => m.id === messageId);
-    const messagesToDelete = messages.slice(messageIndex + 1);
-    
-    if (messagesToDelete.length > 0) {
-      await supabase
-        .from("messages")
-        .delete()
-        .in("id", messagesToDelete.map(m => m.id));
+    // The edited version keeps the original's files
+    let copiedAttachments: MessageAttachment[] = [];
+    const originalAttachments = sortedAttachments(original);
+    if (originalAttachments.length > 0) {
+      const { data: copies, error: copyError } = await supabase
+        .from("message_attachments")
+        .insert(originalAttachments.map(({ storage_path, file_name, file_type, file_size, position }) => ({
+          message_id: editedMessage.id,
+          storage_path,
+          file_name,
+          file_type,
+          file_size,
+          position,
+        })))
+        .select();
+
+      if (copyError) {
+        console.error("Error copying attachments:", copyError);
+      }
+      copiedAttachments = (copies || []) as MessageAttachment[];
     }
 
-    // Update local state
-    setMessages(prev => prev.slice(0, messageIndex + 1).map(m => 
-      m.id === messageId ? { ...m, content: editingContent } : m
-    ));
-    
+    setMessages(prev => [...prev, { ...(editedMessage as Message), message_attachments: copiedAttachments }]);
+    setBranchSelections(prev => ({ ...prev, [parentKeyOf(original)]: editedMessage.id }));
     setEditingMessageId(null);
     setEditingContent("");
 
-    // Regenerate AI response
+    // Generate a reply on the new branch
     setIsLoading(true);
     try {
-      const allMessages = messages.slice(0, messageIndex + 1).map(m => 
-        m.id === messageId ? { ...m, content: editingContent } : m
-      );
-      
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
-          },
-          body: JSON.stringify({ messages: allMessages }),
-        }
-      );
+      await streamAssistantReply(currentConversation, editedMessage.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the edited message",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to get response");
-      }
+  const changeModel = async (model: string) => {
+    setSelectedModel(model);
+    if (!currentConversation) return;
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let assistantMessage = "";
+    const { error } = await supabase
+      .from("conversations")
+      .update({ model })
+      .eq("id", currentConversation);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to change model",
+        variant: "destructive",
+      });
+      return;
+    }
 
-      if (!reader) throw new Error("No response stream");
+    setConversations(prev => prev.map(c =>
+      c.id === currentConversation ? { ...c, model } : c
+    ));
+  };
 
-      let buffer = "";
+  const changeCollection = async (value: string) => {
+    const collectionId = value === "none" ? null : value;
+    setSelectedCollectionId(collectionId);
+    if (!currentConversation) return;
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+    const { error } = await supabase
+      .from("conversations")
+      .update({ collection_id: collectionId })
+      .eq("id", currentConversation);
 
-        buffer += decoder.decode(value, { stream: true });
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to change knowledge base",
+        variant: "destructive",
+      });
+      return;
+    }
 
-        let newlineIndex: number;
-        while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
-          let line = buffer.slice(0, newlineIndex);
-          buffer = buffer.slice(newlineIndex + 1);
+    setConversations(prev => prev.map(c =>
+      c.id === currentConversation ? { ...c, collection_id: collectionId } : c
+    ));
+  };
 
-          if (line.endsWith("\r")) line = line.slice(0, -1);
-          if (line.startsWith(":") || line.trim() === "") continue;
-          if (!line.startsWith("data: ")) continue;
+  // Personas can only be switched before the first message, while the conversation is still empty
+  const applyPersona = async (persona: Persona | null) => {
+    const personaId = persona?.id ?? null;
+    const model = persona?.default_model ?? selectedModel;
 
-          const jsonStr = line.slice(6).trim();
-          if (jsonStr === "[DONE]") break;
+    setSelectedPersonaId(personaId);
+    setSelectedModel(model);
+    if (!currentConversation) return;
 
-          try {
-            const parsed = JSON.parse(jsonStr);
-            const content = parsed.choices?.[0]?.delta?.content;
-            if (content) {
-              assistantMessage += content;
-              setMessages((prev) => {
-                const last = prev[prev.length - 1];
-                if (last?.role === "assistant") {
-                  return prev.map((m, i) =>
-                    i === prev.length - 1 ? { ...m, content: assistantMessage } : m
-                  );
-                }
-                return [
-                  ...prev,
-                  {
-                    id: crypto.randomUUID(),
-                    role: "assistant",
-                    content: assistantMessage,
-                    created_at: new Date().toISOString(),
-                  },
-                ];
-              });
-            }
-          } catch (e) {
-            buffer = line + "\n" + buffer;
-            break;
-          }
-        }
-      }
+    const { error } = await supabase
+      .from("conversations")
+      .update({ persona_id: personaId, model })
+      .eq("id", currentConversation);
 
-      await supabase.from("messages").insert({
-        conversation_id: currentConversation,
-        role: "assistant",
-        content: assistantMessage,
-      });
-    } catch (error: any) {
+    if (error) {
       toast({
         title: "Error",
-        description: error.message,
+        description: "Failed to change persona",
         variant: "destructive",
       });
-    } finally {
-      setIsLoading(false);
+      return;
+    }
+
+    setConversations(prev => prev.map(c =>
+      c.id === currentConversation ? { ...c, persona_id: personaId, model } : c
+    ));
+  };
+
+  const changePersona = (value: string) => {
+    applyPersona(personas.find(p => p.id === value) ?? null);
+  };
+
+  const openPersonaDialog = (persona: Persona | null) => {
+    setEditingPersona(persona);
+    setShowPersonaDialog(true);
+  };
+
+  const handlePersonaSaved = (persona: Persona) => {
+    setPersonas(prev => {
+      const exists = prev.some(p => p.id === persona.id);
+      const next = exists ? prev.map(p => p.id === persona.id ? persona : p) : [...prev, persona];
+      return next.sort((a, b) => a.name.localeCompare(b.name));
+    });
+    if (!editingPersona) {
+      applyPersona(persona);
+    }
+  };
+
+  const handlePersonaDeleted = (personaId: string) => {
+    setPersonas(prev => prev.filter(p => p.id !== personaId));
+    setConversations(prev => prev.map(c =>
+      c.persona_id === personaId ? { ...c, persona_id: null } : c
+    ));
+    if (selectedPersonaId === personaId) {
+      setSelectedPersonaId(null);
     }
   };
 
@@ -826,9 +1223,28 @@ const Chat = () => {
     navigate("/auth");
   };
 
-  const generateImage = async () => {
-    if (!imagePrompt.trim() || !user) return;
-    
+  const openImageAction = (source: ImageSource) => {
+    setImageSource(source);
+    setShowImagePrompt(true);
+  };
+
+  const closeImagePrompt = () => {
+    setShowImagePrompt(false);
+    setImageSource(null);
+  };
+
+  // Shows the message an edited image came from, switching branches if needed
+  const jumpToMessage = (messageId: string) => {
+    if (!messages.some(m => m.id === messageId)) return;
+    setBranchSelections(selectionsForMessage(messages, messageId));
+    setHighlightedMessageId(messageId);
+  };
+
+  const generateImage = async (options: ImageGenerationOptions) => {
+    const mode = imageSource?.mode ?? "generate";
+    const { prompt: imagePrompt } = options;
+    if ((!imagePrompt && mode !== "variation") || !user) return;
+
     setIsGeneratingImage(true);
     
     try {
@@ -838,7 +1254,7 @@ const Chat = () => {
       if (!conversationId) {
         const { data, error } = await supabase
           .from("conversations")
-          .insert({ user_id: user.id, title: `Image: ${imagePrompt.slice(0, 30)}...` })
+          .insert({ user_id: user.id, title: `Image: ${imagePrompt.slice(0, 30)}...`, model: selectedModel, persona_id: selectedPersonaId, collection_id: selectedCollectionId })
           .select()
           .single();
           
@@ -848,53 +1264,106 @@ const Chat = () => {
         loadConversations(user.id);
       }
       
-      // Save user request
-      await supabase.from("messages").insert({
-        conversation_id: conversationId,
-        role: "user",
-        content: `🎨 Generate image: ${imagePrompt}`,
-      });
+      // Save user request at the end of the branch being shown
+      const { data: requestMessage, error: requestError } = await supabase
+        .from("messages")
+        .insert({
+          conversation_id: conversationId,
+          parent_id: conversationId === currentConversation
+            ? activeMessages[activeMessages.length - 1]?.id ?? null
+            : null,
+          role: "user",
+          content: mode === "edit"
+            ? `🎨 Edit image: ${imagePrompt}`
+            : mode === "variation"
+              ? `🎨 Image variation${imagePrompt ? `: ${imagePrompt}` : ""}`
+              : `🎨 Generate image: ${imagePrompt}`,
+        })
+        .select()
+        .single();
+
+      if (requestError) throw requestError;
       
       await loadMessages(conversationId);
       
       const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/generate-image`,
+        edgeFunctionUrl("generate-image"),
         {
           method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-          },
-          body: JSON.stringify({ prompt: imagePrompt }),
+          headers: await getEdgeFunctionHeaders(),
+          body: JSON.stringify({
+            prompt: imagePrompt,
+            conversation_id: conversationId,
+            mode,
+            source_path: imageSource?.storagePath ?? null,
+            source_image: imageSource?.url ?? null,
+            aspect_ratio: options.aspectRatio,
+            count: options.count,
+            style: options.style,
+            negative_prompt: options.negativePrompt,
+          }),
         }
       );
       
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Failed to generate image");
+        throw await readEdgeFunctionError(response, "Failed to generate image");
       }
       
-      const { imageUrl } = await response.json();
-      
-      // Save assistant response with image
-      await supabase.from("messages").insert({
-        conversation_id: conversationId,
-        role: "assistant",
-        content: `Here's your generated image:\n\n![Generated Image](${imageUrl})\n\n**Prompt:** ${imagePrompt}`,
-      });
-      
+      const { images } = await response.json() as {
+        images: { storage_path: string; file_name: string; file_type: string; file_size: number }[];
+      };
+
+      const plural = images.length > 1;
+      const intro = mode === "edit"
+        ? plural ? "Here are your edited images:" : "Here's your edited image:"
+        : mode === "variation"
+          ? plural ? "Here are some variations of your image:" : "Here's a variation of your image:"
+          : plural ? "Here are your generated images:" : "Here's your generated image:";
+      const details = [
+        imagePrompt && `**Prompt:** ${imagePrompt}`,
+        options.style && `**Style:** ${options.style}`,
+        options.negativePrompt && `**Avoid:** ${options.negativePrompt}`,
+      ].filter(Boolean).join("\n");
+
+      // Save assistant response, linked to the image it was made from, with the stored images attached
+      const { data: imageMessage, error: imageMessageError } = await supabase
+        .from("messages")
+        .insert({
+          conversation_id: conversationId,
+          parent_id: requestMessage.id,
+          role: "assistant",
+          content: details ? `${intro}\n\n${details}` : intro,
+          source_message_id: imageSource?.messageId ?? null,
+        })
+        .select()
+        .single();
+
+      if (imageMessageError) throw imageMessageError;
+
+      const { error: attachmentError } = await supabase.from("message_attachments").insert(
+        images.map((image, position) => ({
+          message_id: imageMessage.id,
+          storage_path: image.storage_path,
+          file_name: image.file_name,
+          file_type: image.file_type,
+          file_size: image.file_size,
+          position,
+        }))
+      );
+
+      if (attachmentError) throw attachmentError;
+
       await loadMessages(conversationId);
-      setShowImagePrompt(false);
-      setImagePrompt("");
-      
+      closeImagePrompt();
+
       toast({
         title: "Image Generated",
         description: "Your image has been created successfully.",
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Image Generation Failed",
-        description: error.message,
+        description: error instanceof Error ? error.message : "Failed to generate image",
         variant: "destructive",
       });
     } finally {
@@ -902,58 +1371,59 @@ const Chat = () => {
     }
   };
 
-
-  const renderMessageContent = (content: string) => {
-    const parts: JSX.Element[] = [];
-    // Match code blocks, images, and videos
-    const combinedRegex = /```(\w+)?\n([\s\S]*?)```|!\[([^\]]*)\]\(([^)]+)\)|<video[^>]*>\s*<source\s+src="([^"]+)"[^>]*>\s*[^<]*<\/video>/g;
-    let lastIndex = 0;
-    let match;
-
-    while ((match = combinedRegex.exec(content)) !== null) {
-      // Add text before match
-      if (match.index > lastIndex) {
-        const textBefore = content.slice(lastIndex, match.index);
-        parts.push(
-          <span key={`text-${lastIndex}`} className="whitespace-pre-wrap">
-            {textBefore}
-          </span>
-        );
-      }
-
-      if (match[0].startsWith('```')) {
-        // Code block
-        const language = match[1] || "code";
-        const code = match[2];
-        parts.push(
-          <CodeBlock key={`code-${match.index}`} code={code} language={language} />
-        );
-      } else if (match[0].startsWith('![')) {
-        // Image
-        const alt = match[3] || 'Image';
-        const src = match[4];
-        parts.push(
-          <div key={`img-${match.index}`} className="my-2 relative group/img">
+  // `imageActionsFor` is the id of a finished assistant message whose images can be edited or varied
+  const renderMessageContent = (content: string, imageActionsFor?: string, isStreaming = false) => (
+    <MarkdownContent
+      content={content}
+      renderers={{
+        code: (code, language, isOpen, key) => (
+          <CodeBlock
+            key={key}
+            code={code}
+            language={language}
+            isStreaming={isStreaming && isOpen}
+            onSendOutput={isLoading ? undefined : sendFollowUp}
+          />
+        ),
+        image: (src, alt, key) => (
+          <div key={key} className="my-2 relative group/img">
             <img 
               src={src} 
               alt={alt}
               className="max-w-full rounded-lg border border-border"
               loading="lazy"
             />
-            <button
-              onClick={() => downloadImage(src, `generated-image-${Date.now()}.png`)}
-              className="absolute top-2 right-2 opacity-0 group-hover/img:opacity-100 transition-opacity p-2 rounded-lg bg-background/80 hover:bg-background border border-border"
-              title="Download image"
-            >
-              <Download className="w-4 h-4" />
-            </button>
+            <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover/img:opacity-100 transition-opacity">
+              {imageActionsFor && (
+                <>
+                  <button
+                    onClick={() => openImageAction({ messageId: imageActionsFor, url: src, mode: "edit" })}
+                    className="p-2 rounded-lg bg-background/80 hover:bg-background border border-border"
+                    title="Edit image"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => openImageAction({ messageId: imageActionsFor, url: src, mode: "variation" })}
+                    className="p-2 rounded-lg bg-background/80 hover:bg-background border border-border"
+                    title="Make variations"
+                  >
+                    <Shuffle className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+              <button
+                onClick={() => downloadImage(src, `generated-image-${Date.now()}.png`)}
+                className="p-2 rounded-lg bg-background/80 hover:bg-background border border-border"
+                title="Download image"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+            </div>
           </div>
-        );
-      } else if (match[0].startsWith('<video')) {
-        // Video
-        const videoSrc = match[5];
-        parts.push(
-          <div key={`video-${match.index}`} className="my-2 relative group/video">
+        ),
+        video: (videoSrc, key) => (
+          <div key={key} className="my-2 relative group/video">
             <video 
               controls
               className="max-w-full rounded-lg border border-border"
@@ -971,24 +1441,10 @@ const Chat = () => {
               <Download className="w-4 h-4" />
             </a>
           </div>
-        );
-      }
-
-      lastIndex = match.index + match[0].length;
-    }
-
-    // Add remaining text
-    if (lastIndex < content.length) {
-      const remainingText = content.slice(lastIndex);
-      parts.push(
-        <span key={`text-${lastIndex}`} className="whitespace-pre-wrap">
-          {remainingText}
-        </span>
-      );
-    }
-
-    return parts.length > 0 ? parts : <span className="whitespace-pre-wrap">{content}</span>;
-  };
+        ),
+      }}
+    />
+  );
 
   const downloadFile = async (fileUrl: string, fileName: string) => {
     try {
@@ -1004,64 +1460,142 @@ const Chat = () => {
       a.download = fileName;
       a.click();
       URL.revokeObjectURL(url);
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: "Download failed",
-        description: error.message,
+        description: error instanceof Error ? error.message : "Failed to download the file",
         variant: "destructive",
       });
     }
   };
 
+  const renderBranchNav = (message: Message) => {
+    const siblings = getSiblings(messages, message);
+    if (siblings.length < 2) return null;
+
+    const position = siblings.indexOf(message);
+    return (
+      <div className="flex items-center gap-1 mt-2 text-xs opacity-70">
+        <button
+          onClick={() => switchBranch(message, -1)}
+          disabled={isLoading || position === 0}
+          className="p-0.5 rounded hover:bg-secondary/50 disabled:opacity-40"
+          title="Previous version"
+        >
+          <ChevronLeft className="w-3.5 h-3.5" />
+        </button>
+        <span className="tabular-nums">{position + 1}/{siblings.length}</span>
+        <button
+          onClick={() => switchBranch(message, 1)}
+          disabled={isLoading || position === siblings.length - 1}
+          className="p-0.5 rounded hover:bg-secondary/50 disabled:opacity-40"
+          title="Next version"
+        >
+          <ChevronRight className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    );
+  };
 
-  const renderFileAttachment = (message: Message) => {
-    if (!message.file_url || !message.file_name) return null;
+  // Generated images on finished assistant replies get edit and variation actions
+  const renderAttachments = (message: Message, withImageActions = false) => {
+    const attachments = sortedAttachments(message);
+    if (attachments.length === 0) return null;
 
-    const isImage = message.file_type?.startsWith('image/');
-    const fileSize = message.file_size ? `${(message.file_size / 1024).toFixed(1)} KB` : '';
+    const images = attachments.filter((a) => a.file_type?.startsWith('image/'));
+    const files = attachments.filter((a) => !a.file_type?.startsWith('image/'));
 
     return (
-      <div className="mt-2">
-        {isImage ? (
-          <div className="space-y-2">
-            <div className="relative group cursor-pointer" onClick={() => downloadFile(message.file_url!, message.file_name!)}>
-              <div className="rounded-lg overflow-hidden border border-border max-w-sm">
-                <img 
-                  src={`${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/public/chat-files/${message.file_url}`}
-                  alt={message.file_name}
-                  className="w-full h-auto"
-                  onError={(e) => {
-                    const img = e.target as HTMLImageElement;
-                    supabase.storage.from('chat-files').createSignedUrl(message.file_url!, 3600).then(({ data }) => {
-                      if (data) img.src = data.signedUrl;
-                    });
-                  }}
-                />
-              </div>
-              <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center rounded-lg">
-                <Download className="w-8 h-8 text-white" />
+      <div className="mt-2 space-y-2">
+        {images.length > 0 && (
+          <div className={`grid gap-2 ${images.length > 1 ? "grid-cols-2" : ""}`}>
+            {images.map((attachment) => withImageActions ? (
+              <div key={attachment.id} className="relative group/img">
+                <div className="rounded-lg overflow-hidden border border-border max-w-sm">
+                  <StorageImage path={attachment.storage_path} alt={attachment.file_name} className="w-full h-auto" />
+                </div>
+                <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover/img:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => openImageAction({ messageId: message.id, storagePath: attachment.storage_path, mode: "edit" })}
+                    className="p-2 rounded-lg bg-background/80 hover:bg-background border border-border"
+                    title="Edit image"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => openImageAction({ messageId: message.id, storagePath: attachment.storage_path, mode: "variation" })}
+                    className="p-2 rounded-lg bg-background/80 hover:bg-background border border-border"
+                    title="Make variations"
+                  >
+                    <Shuffle className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => downloadFile(attachment.storage_path, attachment.file_name)}
+                    className="p-2 rounded-lg bg-background/80 hover:bg-background border border-border"
+                    title="Download image"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                </div>
               </div>
-            </div>
-          </div>
-        ) : (
-          <div className="space-y-2">
-            <button
-              onClick={() => downloadFile(message.file_url!, message.file_name!)}
-              className="flex items-center gap-3 p-3 rounded-lg border border-border bg-secondary/50 hover:bg-secondary transition-colors w-full"
-            >
-              <FileIcon className="w-8 h-8 text-muted-foreground flex-shrink-0" />
-              <div className="flex-1 text-left min-w-0">
-                <p className="text-sm font-medium truncate">{message.file_name}</p>
-                {fileSize && <p className="text-xs text-muted-foreground">{fileSize}</p>}
+            ) : (
+              <div
+                key={attachment.id}
+                className="relative group cursor-pointer"
+                onClick={() => downloadFile(attachment.storage_path, attachment.file_name)}
+              >
+                <div className="rounded-lg overflow-hidden border border-border max-w-sm">
+                  <StorageImage path={attachment.storage_path} alt={attachment.file_name} className="w-full h-auto" />
+                </div>
+                <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center rounded-lg">
+                  <Download className="w-8 h-8 text-white" />
+                </div>
               </div>
-              <Download className="w-4 h-4 text-muted-foreground flex-shrink-0" />
-            </button>
+            ))}
           </div>
         )}
+        {files.map((attachment) => (
+          <button
+            key={attachment.id}
+            onClick={() => downloadFile(attachment.storage_path, attachment.file_name)}
+            className="flex items-center gap-3 p-3 rounded-lg border border-border bg-secondary/50 hover:bg-secondary transition-colors w-full"
+          >
+            <FileIcon className="w-8 h-8 text-muted-foreground flex-shrink-0" />
+            <div className="flex-1 text-left min-w-0">
+              <p className="text-sm font-medium truncate">{attachment.file_name}</p>
+              {attachment.file_size && (
+                <p className="text-xs text-muted-foreground">{(attachment.file_size / 1024).toFixed(1)} KB</p>
+              )}
+            </div>
+            <Download className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+          </button>
+        ))}
       </div>
     );
   };
 
+  const matchingConversations = conversations.filter((conv) =>
+    conv.title.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+  const activeConversations = matchingConversations.filter((conv) => !conv.archived_at);
+  const archivedConversations = matchingConversations.filter((conv) => conv.archived_at);
+
+  const renderConversationItem = (conv: Conversation) => (
+    <ConversationItem
+      key={conv.id}
+      title={conv.title}
+      isActive={currentConversation === conv.id}
+      pinned={conv.pinned}
+      archived={!!conv.archived_at}
+      onSelect={() => selectConversation(conv)}
+      onRename={(title) => renameConversation(conv.id, title)}
+      onRegenerateTitle={() => generateTitle(conv.id, true)}
+      onTogglePin={() => togglePinConversation(conv)}
+      onToggleArchive={() => toggleArchiveConversation(conv)}
+      onDelete={() => deleteConversation(conv.id)}
+    />
+  );
+
   return (
     <div className="flex h-screen bg-background">
       {/* Sidebar */}
@@ -1078,7 +1612,7 @@ const Chat = () => {
           <div className="relative">
             <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
             <Input
-              placeholder="Search conversations..."
+              placeholder="Search conversations and messages..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="pl-10"
@@ -1087,36 +1621,41 @@ const Chat = () => {
         </div>
 
         <ScrollArea className="flex-1 p-4">
-          {conversations
-            .filter((conv) =>
-              conv.title.toLowerCase().includes(searchQuery.toLowerCase())
-            )
-            .map((conv) => (
-              <button
-                key={conv.id}
-                onClick={() => {
-                  setCurrentConversation(conv.id);
-                  loadMessages(conv.id);
-                }}
-                className={`w-full text-left p-3 rounded-lg mb-2 transition-colors ${
-                  currentConversation === conv.id
-                    ? "bg-secondary"
-                    : "hover:bg-secondary/50"
-                }`}
-              >
-                <p className="truncate text-sm">{conv.title}</p>
-              </button>
-            ))}
-          {conversations.filter((conv) =>
-            conv.title.toLowerCase().includes(searchQuery.toLowerCase())
-          ).length === 0 && (
+          {activeConversations.map((conv) => renderConversationItem(conv))}
+          {activeConversations.length === 0 && (
             <p className="text-center text-sm text-muted-foreground mt-4">
               {searchQuery ? "No conversations found" : "No conversations yet"}
             </p>
           )}
+          {archivedConversations.length > 0 && (
+            <Collapsible className="mt-4">
+              <CollapsibleTrigger className="group flex items-center gap-1 w-full px-1 py-2 text-xs font-medium text-muted-foreground hover:text-foreground">
+                <ChevronRight className="w-3 h-3 transition-transform group-data-[state=open]:rotate-90" />
+                Archived ({archivedConversations.length})
+              </CollapsibleTrigger>
+              <CollapsibleContent>
+                {archivedConversations.map((conv) => renderConversationItem(conv))}
+              </CollapsibleContent>
+            </Collapsible>
+          )}
+          {searchQuery.trim().length >= 2 && (
+            <MessageSearchResults
+              results={messageSearchResults}
+              isSearching={isSearchingMessages}
+              onSelect={openSearchResult}
+            />
+          )}
         </ScrollArea>
 
         <div className="p-4 border-t border-border space-y-2">
+          <Button
+            onClick={() => navigate("/knowledge")}
+            variant="outline"
+            className="w-full"
+          >
+            <BookOpen className="w-4 h-4 mr-2" />
+            Knowledge Base
+          </Button>
           <Button
             onClick={() => navigate("/profile")}
             variant="outline"
@@ -1137,7 +1676,21 @@ const Chat = () => {
       </div>
 
       {/* Main Chat Area */}
-      <div className="flex-1 flex flex-col">
+      <div
+        className="flex-1 flex flex-col relative"
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+      >
+        {isDraggingFiles && (
+          <div className="absolute inset-0 z-50 m-4 flex items-center justify-center rounded-2xl border-2 border-dashed border-primary bg-background/80 backdrop-blur-sm pointer-events-none">
+            <div className="text-center space-y-2">
+              <Paperclip className="w-8 h-8 mx-auto text-primary" />
+              <p className="font-medium">Drop files to attach</p>
+              <p className="text-xs text-muted-foreground">Up to {MAX_ATTACHMENTS} files, 10MB each</p>
+            </div>
+          </div>
+        )}
         <div className="p-4 border-b border-border bg-card">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
@@ -1147,7 +1700,35 @@ const Chat = () => {
               <h1 className="text-xl font-bold">Tvog AI</h1>
             </div>
             <div className="flex items-center gap-2">
-              {currentConversation && messages.length > 0 && (
+              <Select value={selectedModel} onValueChange={changeModel} disabled={isLoading}>
+                <SelectTrigger className="h-9 w-[180px]">
+                  <SelectValue placeholder="Model" />
+                </SelectTrigger>
+                <SelectContent>
+                  {MODEL_OPTIONS.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {collections.length > 0 && (
+                <Select value={selectedCollectionId ?? "none"} onValueChange={changeCollection} disabled={isLoading}>
+                  <SelectTrigger className="h-9 w-[180px]">
+                    <BookOpen className="w-4 h-4 mr-2 flex-shrink-0 text-muted-foreground" />
+                    <SelectValue placeholder="Knowledge base" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No knowledge base</SelectItem>
+                    {collections.map((collection) => (
+                      <SelectItem key={collection.id} value={collection.id}>
+                        {collection.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {currentConversation && activeMessages.length > 0 && (
                 <TooltipProvider>
                   <Tooltip>
                     <TooltipTrigger asChild>
@@ -1170,7 +1751,7 @@ const Chat = () => {
         </div>
 
         <ScrollArea className="flex-1 p-6">
-          {messages.length === 0 ? (
+          {activeMessages.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-full text-center space-y-4">
               <div className="w-20 h-20 rounded-2xl bg-gradient-primary flex items-center justify-center shadow-glow">
                 <Sparkles className="w-10 h-10 text-primary-foreground" />
@@ -1179,212 +1760,277 @@ const Chat = () => {
                 <h2 className="text-2xl font-bold mb-2">Welcome to Tvog AI</h2>
                 <p className="text-muted-foreground">Start a conversation to get started</p>
               </div>
+              <div className="flex items-center gap-2">
+                <Select value={selectedPersonaId ?? "default"} onValueChange={changePersona}>
+                  <SelectTrigger className="w-[220px]">
+                    <SelectValue placeholder="Persona" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Tvog AI (default)</SelectItem>
+                    {personas.map((persona) => (
+                      <SelectItem key={persona.id} value={persona.id}>
+                        {persona.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        onClick={() => openPersonaDialog(personas.find(p => p.id === selectedPersonaId) ?? null)}
+                      >
+                        {selectedPersonaId ? <Settings2 className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                      </Button>
+                    </TooltipTrigger>
+                    <TooltipContent>{selectedPersonaId ? "Edit persona" : "New persona"}</TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              </div>
             </div>
           ) : (
             <div className="space-y-4 max-w-3xl mx-auto">
-              {messages.map((message, index) => {
-                const isLastMessage = index === messages.length - 1;
+              {activeMessages.map((message, index) => {
+                const isLastMessage = index === activeMessages.length - 1;
                 const isStreaming = isLoading && isLastMessage && message.role === "assistant";
                 
                 return (
-                  <div
-                    key={message.id}
-                    className={`flex gap-3 ${
-                      message.role === "user" ? "justify-end" : ""
-                    }`}
-                  >
-                    {message.role === "assistant" && (
-                      <div className="w-8 h-8 rounded-lg bg-gradient-primary flex items-center justify-center flex-shrink-0">
-                        <Sparkles className="w-4 h-4 text-primary-foreground" />
-                      </div>
-                    )}
+                  <Fragment key={message.id}>
                     <div
-                      className={`rounded-2xl p-4 max-w-[80%] group relative ${
-                        message.role === "user"
-                          ? "bg-primary text-primary-foreground"
-                          : "bg-card border border-border"
-                      }`}
+                      id={`message-${message.id}`}
+                      className={`flex gap-3 rounded-2xl transition-shadow duration-500 ${
+                        message.role === "user" ? "justify-end" : ""
+                      } ${highlightedMessageId === message.id ? "ring-2 ring-primary ring-offset-4 ring-offset-background" : ""}`}
                     >
-                      {message.role === "assistant" ? (
-                        <div className={isStreaming ? "typing-cursor" : ""}>
-                          {renderMessageContent(message.content)}
-                          {!isStreaming && message.content && (
-                            <div className="flex items-center gap-1 mt-3 pt-3 border-t border-border opacity-0 group-hover:opacity-100 transition-opacity">
-                              <TooltipProvider>
-                                <Tooltip>
-                                  <TooltipTrigger asChild>
-                                    <button
-                                      onClick={() => copyToClipboard(message.content)}
-                                      className="p-1.5 rounded-md hover:bg-secondary transition-colors"
-                                    >
-                                      <Copy className="w-3.5 h-3.5" />
-                                    </button>
-                                  </TooltipTrigger>
-                                  <TooltipContent>Copy</TooltipContent>
-                                </Tooltip>
-                              </TooltipProvider>
-                              <TooltipProvider>
-                                <Tooltip>
-                                  <TooltipTrigger asChild>
-                                    <button
-                                      onClick={() => regenerateResponse(index)}
-                                      disabled={isLoading}
-                                      className="p-1.5 rounded-md hover:bg-secondary transition-colors disabled:opacity-50"
-                                    >
-                                      <RefreshCw className="w-3.5 h-3.5" />
-                                    </button>
-                                  </TooltipTrigger>
-                                  <TooltipContent>Regenerate</TooltipContent>
-                                </Tooltip>
-                              </TooltipProvider>
-                              <div className="w-px h-4 bg-border mx-1" />
-                              <TooltipProvider>
-                                <Tooltip>
-                                  <TooltipTrigger asChild>
-                                    <button
-                                      onClick={() => handleFeedback(message.id, 'up')}
-                                      className={`p-1.5 rounded-md hover:bg-secondary transition-colors ${messageFeedback[message.id] === 'up' ? 'text-primary bg-primary/10' : ''}`}
-                                    >
-                                      <ThumbsUp className="w-3.5 h-3.5" />
-                                    </button>
-                                  </TooltipTrigger>
-                                  <TooltipContent>Good response</TooltipContent>
-                                </Tooltip>
-                              </TooltipProvider>
-                              <TooltipProvider>
-                                <Tooltip>
-                                  <TooltipTrigger asChild>
-                                    <button
-                                      onClick={() => handleFeedback(message.id, 'down')}
-                                      className={`p-1.5 rounded-md hover:bg-secondary transition-colors ${messageFeedback[message.id] === 'down' ? 'text-destructive bg-destructive/10' : ''}`}
-                                    >
-                                      <ThumbsDown className="w-3.5 h-3.5" />
-                                    </button>
-                                  </TooltipTrigger>
-                                  <TooltipContent>Bad response</TooltipContent>
-                                </Tooltip>
-                              </TooltipProvider>
-                            </div>
-                          )}
-                        </div>
-                      ) : editingMessageId === message.id ? (
-                        <div className="space-y-2">
-                          <Textarea
-                            value={editingContent}
-                            onChange={(e) => setEditingContent(e.target.value)}
-                            className="min-h-[60px] bg-primary-foreground/10 border-primary-foreground/20 text-primary-foreground placeholder:text-primary-foreground/50"
-                            autoFocus
-                          />
-                          <div className="flex gap-2 justify-end">
-                            <Button
-                              type="button"
-                              size="sm"
-                              variant="ghost"
-                              onClick={cancelEditing}
-                              className="h-7 px-2 text-primary-foreground/80 hover:text-primary-foreground hover:bg-primary-foreground/10"
-                            >
-                              <X className="w-3 h-3 mr-1" />
-                              Cancel
-                            </Button>
-                            <Button
-                              type="button"
-                              size="sm"
-                              onClick={() => saveEditedMessage(message.id)}
-                              disabled={!editingContent.trim() || isLoading}
-                              className="h-7 px-2 bg-primary-foreground text-primary hover:bg-primary-foreground/90"
-                            >
-                              <Check className="w-3 h-3 mr-1" />
-                              Save & Resend
-                            </Button>
-                          </div>
-                        </div>
-                      ) : (
-                        <div className="group relative">
-                          {message.content && <p className="whitespace-pre-wrap">{message.content}</p>}
-                          {renderFileAttachment(message)}
-                          {!isLoading && (
-                            <button
-                              onClick={() => startEditingMessage(message)}
-                              className="absolute -top-2 -right-2 opacity-0 group-hover:opacity-100 transition-opacity p-1.5 rounded-full bg-primary-foreground/20 hover:bg-primary-foreground/30"
-                              title="Edit message"
-                            >
-                              <Pencil className="w-3 h-3" />
-                            </button>
-                          )}
+                      {message.role === "assistant" && (
+                        <div className="w-8 h-8 rounded-lg bg-gradient-primary flex items-center justify-center flex-shrink-0">
+                          <Sparkles className="w-4 h-4 text-primary-foreground" />
                         </div>
                       )}
+                      <div
+                        className={`rounded-2xl p-4 max-w-[80%] group relative ${
+                          message.role === "user"
+                            ? "bg-primary text-primary-foreground"
+                            : "bg-card border border-border"
+                        }`}
+                      >
+                        {message.role === "assistant" ? (
+                          <div className={isStreaming ? "typing-cursor" : ""}>
+                            {message.source_message_id && (
+                              <button
+                                onClick={() => jumpToMessage(message.source_message_id!)}
+                                className="flex items-center gap-1.5 mb-2 text-xs text-muted-foreground hover:text-foreground transition-colors"
+                              >
+                                <ImageIcon className="w-3 h-3" />
+                                Made from an earlier image
+                              </button>
+                            )}
+                            {renderMessageContent(message.content, isStreaming ? undefined : message.id, isStreaming)}
+                            {renderAttachments(message, !isStreaming)}
+                            {!isStreaming && messageArtifacts.has(message.id) && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setArtifactMessageId(message.id)}
+                                className="mt-2 h-8"
+                              >
+                                <Layers className="w-4 h-4 mr-2" />
+                                Open in workspace ({messageArtifacts.get(message.id)!.length} files)
+                              </Button>
+                            )}
+                            <MessageCitations
+                              citations={message.citations}
+                              content={message.content}
+                              onOpen={(citation) => downloadFile(citation.storage_path, citation.file_name)}
+                            />
+                            {renderBranchNav(message)}
+                            {!isStreaming && message.content && (
+                              <div className="flex items-center gap-1 mt-3 pt-3 border-t border-border opacity-0 group-hover:opacity-100 transition-opacity">
+                                <TooltipProvider>
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                      <button
+                                        onClick={() => copyToClipboard(message.content)}
+                                        className="p-1.5 rounded-md hover:bg-secondary transition-colors"
+                                      >
+                                        <Copy className="w-3.5 h-3.5" />
+                                      </button>
+                                    </TooltipTrigger>
+                                    <TooltipContent>Copy</TooltipContent>
+                                  </Tooltip>
+                                </TooltipProvider>
+                                <TooltipProvider>
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                      <button
+                                        onClick={() => regenerateResponse(message)}
+                                        disabled={isLoading}
+                                        className="p-1.5 rounded-md hover:bg-secondary transition-colors disabled:opacity-50"
+                                      >
+                                        <RefreshCw className="w-3.5 h-3.5" />
+                                      </button>
+                                    </TooltipTrigger>
+                                    <TooltipContent>Regenerate</TooltipContent>
+                                  </Tooltip>
+                                </TooltipProvider>
+                                <div className="w-px h-4 bg-border mx-1" />
+                                <TooltipProvider>
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                      <button
+                                        onClick={() => handleFeedback(message.id, 'up')}
+                                        className={`p-1.5 rounded-md hover:bg-secondary transition-colors ${messageFeedback[message.id] === 'up' ? 'text-primary bg-primary/10' : ''}`}
+                                      >
+                                        <ThumbsUp className="w-3.5 h-3.5" />
+                                      </button>
+                                    </TooltipTrigger>
+                                    <TooltipContent>Good response</TooltipContent>
+                                  </Tooltip>
+                                </TooltipProvider>
+                                <TooltipProvider>
+                                  <Tooltip>
+                                    <TooltipTrigger asChild>
+                                      <button
+                                        onClick={() => handleFeedback(message.id, 'down')}
+                                        className={`p-1.5 rounded-md hover:bg-secondary transition-colors ${messageFeedback[message.id] === 'down' ? 'text-destructive bg-destructive/10' : ''}`}
+                                      >
+                                        <ThumbsDown className="w-3.5 h-3.5" />
+                                      </button>
+                                    </TooltipTrigger>
+                                    <TooltipContent>Bad response</TooltipContent>
+                                  </Tooltip>
+                                </TooltipProvider>
+                              </div>
+                            )}
+                          </div>
+                        ) : editingMessageId === message.id ? (
+                          <div className="space-y-2">
+                            <Textarea
+                              value={editingContent}
+                              onChange={(e) => setEditingContent(e.target.value)}
+                              className="min-h-[60px] bg-primary-foreground/10 border-primary-foreground/20 text-primary-foreground placeholder:text-primary-foreground/50"
+                              autoFocus
+                            />
+                            <div className="flex gap-2 justify-end">
+                              <Button
+                                type="button"
+                                size="sm"
+                                variant="ghost"
+                                onClick={cancelEditing}
+                                className="h-7 px-2 text-primary-foreground/80 hover:text-primary-foreground hover:bg-primary-foreground/10"
+                              >
+                                <X className="w-3 h-3 mr-1" />
+                                Cancel
+                              </Button>
+                              <Button
+                                type="button"
+                                size="sm"
+                                onClick={() => saveEditedMessage(message.id)}
+                                disabled={!editingContent.trim() || isLoading}
+                                className="h-7 px-2 bg-primary-foreground text-primary hover:bg-primary-foreground/90"
+                              >
+                                <Check className="w-3 h-3 mr-1" />
+                                Save & Resend
+                              </Button>
+                            </div>
+                          </div>
+                        ) : (
+                          <div className="group relative">
+                            {message.content && <p className="whitespace-pre-wrap">{message.content}</p>}
+                            {renderAttachments(message)}
+                            {renderBranchNav(message)}
+                            {!isLoading && (
+                              <button
+                                onClick={() => startEditingMessage(message)}
+                                className="absolute -top-2 -right-2 opacity-0 group-hover:opacity-100 transition-opacity p-1.5 rounded-full bg-primary-foreground/20 hover:bg-primary-foreground/30"
+                                title="Edit message"
+                              >
+                                <Pencil className="w-3 h-3" />
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  </div>
+                  {index === summaryMarkerIndex && !isLastMessage && (
+                    <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                      <div className="flex-1 border-t border-dashed border-border" />
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <span className="flex items-center gap-1.5 cursor-default">
+                              <FileText className="w-3 h-3" />
+                              Earlier messages are summarized for the AI
+                            </span>
+                          </TooltipTrigger>
+                          <TooltipContent className="max-w-xs">
+                            This conversation is longer than the model's context window, so messages above this line are sent as a summary.
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                      <div className="flex-1 border-t border-dashed border-border" />
+                    </div>
+                  )}
+                  </Fragment>
                 );
               })}
-              {isLoading && messages[messages.length - 1]?.role !== "assistant" && (
+              {isLoading && activeMessages[activeMessages.length - 1]?.role !== "assistant" && (
                 <ThinkingAnimation />
               )}
             </div>
           )}
         </ScrollArea>
 
-        {/* Image Generation Modal */}
-        {showImagePrompt && (
-          <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-            <div className="bg-card border border-border rounded-xl p-6 max-w-md w-full space-y-4 shadow-lg">
-              <div className="flex items-center gap-3">
-                <div className="w-10 h-10 rounded-lg bg-gradient-primary flex items-center justify-center">
-                  <Wand2 className="w-5 h-5 text-primary-foreground" />
-                </div>
-                <div>
-                  <h3 className="font-semibold">Generate Image</h3>
-                  <p className="text-sm text-muted-foreground">Describe the image you want to create</p>
-                </div>
-              </div>
-              <Textarea
-                value={imagePrompt}
-                onChange={(e) => setImagePrompt(e.target.value)}
-                placeholder="A futuristic city with flying cars..."
-                className="min-h-[100px]"
-                autoFocus
-              />
-              <div className="flex gap-2 justify-end">
-                <Button
-                  variant="outline"
-                  onClick={() => {
-                    setShowImagePrompt(false);
-                    setImagePrompt("");
-                  }}
-                >
-                  Cancel
-                </Button>
-                <Button
-                  onClick={generateImage}
-                  disabled={!imagePrompt.trim() || isGeneratingImage}
-                  className="bg-gradient-primary"
-                >
-                  {isGeneratingImage ? "Generating..." : "Generate"}
-                </Button>
-              </div>
-            </div>
-          </div>
+        {user && (
+          <PersonaDialog
+            open={showPersonaDialog}
+            onOpenChange={setShowPersonaDialog}
+            userId={user.id}
+            persona={editingPersona}
+            onSaved={handlePersonaSaved}
+            onDeleted={handlePersonaDeleted}
+          />
         )}
 
+        <FeedbackDialog
+          open={feedbackMessageId !== null}
+          onOpenChange={(open) => !open && setFeedbackMessageId(null)}
+          onSubmit={(details) => {
+            if (feedbackMessageId) saveFeedback(feedbackMessageId, 'down', details);
+          }}
+        />
+
+        <ImageGenerationDialog
+          open={showImagePrompt}
+          onOpenChange={(open) => !open && closeImagePrompt()}
+          userId={user?.id ?? null}
+          source={imageSource}
+          isGenerating={isGeneratingImage}
+          onGenerate={generateImage}
+        />
 
         <div className="p-4 border-t border-border bg-card">
           <form onSubmit={sendMessage} className="max-w-3xl mx-auto space-y-2">
-            {selectedFile && (
-              <div className="flex items-center gap-2 p-2 bg-secondary rounded-lg">
-                <FileIcon className="w-4 h-4 text-muted-foreground" />
-                <span className="text-sm flex-1 truncate">{selectedFile.name}</span>
-                <span className="text-xs text-muted-foreground">{(selectedFile.size / 1024).toFixed(1)} KB</span>
+            {isStreaming && (
+              <div className="flex justify-center">
                 <Button
                   type="button"
-                  variant="ghost"
+                  variant="outline"
                   size="sm"
-                  onClick={() => setSelectedFile(null)}
-                  className="h-6 w-6 p-0"
+                  onClick={stopStream}
                 >
-                  ×
+                  <Square className="w-3 h-3 mr-2 fill-current" />
+                  Stop generating
                 </Button>
               </div>
             )}
+            <AttachmentTray
+              attachments={pendingAttachments}
+              disabled={isUploading}
+              onRemove={(id) => setPendingAttachments((prev) => prev.filter((a) => a.id !== id))}
+            />
             <div className="flex gap-2">
               <input
                 type="file"
@@ -1392,6 +2038,7 @@ const Chat = () => {
                 className="hidden"
                 onChange={handleFileSelect}
                 accept="*/*"
+                multiple
               />
               <Button
                 type="button"
@@ -1450,11 +2097,12 @@ const Chat = () => {
                     sendMessage(e);
                   }
                 }}
+                onPaste={handlePaste}
                 maxLength={MAX_MESSAGE_LENGTH}
               />
               <Button
                 type="submit"
-                disabled={isLoading || isUploading || (!input.trim() && !selectedFile)}
+                disabled={isLoading || isUploading || (!input.trim() && pendingAttachments.length === 0)}
                 className="bg-gradient-primary hover:opacity-90 h-[60px] px-6"
               >
                 {isUploading ? (
@@ -1475,6 +2123,14 @@ const Chat = () => {
           </form>
         </div>
       </div>
+
+      {artifactFiles && (
+        <ArtifactPanel
+          key={artifactMessageId}
+          files={artifactFiles}
+          onClose={() => setArtifactMessageId(null)}
+        />
+      )}
     </div>
   );
 };
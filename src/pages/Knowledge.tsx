@@ -0,0 +1,448 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeft, BookOpen, FileText, Loader2, Plus, RefreshCw, Settings2, Sparkles, Trash2, Upload } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { CollectionDialog, type KnowledgeCollection } from "@/components/CollectionDialog";
+import { AttachmentTray, type PendingAttachment } from "@/components/AttachmentTray";
+import { MAX_ATTACHMENT_SIZE, uploadWithProgress } from "@/lib/uploads";
+import { edgeFunctionUrl, getEdgeFunctionHeaders, readEdgeFunctionError } from "@/lib/edgeFunctions";
+
+interface KnowledgeDocument {
+  id: string;
+  collection_id: string;
+  storage_path: string;
+  file_name: string;
+  file_type: string | null;
+  file_size: number | null;
+  status: "pending" | "indexing" | "ready" | "error";
+  error: string | null;
+  chunk_count: number;
+  created_at: string;
+}
+
+const formatSize = (bytes: number | null) =>
+  bytes === null ? "—" : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const Knowledge = () => {
+  const [user, setUser] = useState<User | null>(null);
+  const [collections, setCollections] = useState<KnowledgeCollection[]>([]);
+  const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(null);
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [uploads, setUploads] = useState<PendingAttachment[]>([]);
+  const [showCollectionDialog, setShowCollectionDialog] = useState(false);
+  const [editingCollection, setEditingCollection] = useState<KnowledgeCollection | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const selectedCollection = collections.find(c => c.id === selectedCollectionId) ?? null;
+  // Uploads started in another collection can still land here after switching
+  const collectionDocuments = documents.filter(d => d.collection_id === selectedCollectionId);
+  const isUploading = uploads.some(u => u.status === "queued" || u.status === "uploading");
+
+  useEffect(() => {
+    const checkAuth = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        navigate("/auth");
+        return;
+      }
+      setUser(session.user);
+      loadCollections(session.user.id);
+    };
+
+    checkAuth();
+  }, [navigate]);
+
+  useEffect(() => {
+    if (!selectedCollectionId) {
+      setDocuments([]);
+      return;
+    }
+
+    const loadDocuments = async () => {
+      const { data, error } = await supabase
+        .from("knowledge_documents")
+        .select("id, collection_id, storage_path, file_name, file_type, file_size, status, error, chunk_count, created_at")
+        .eq("collection_id", selectedCollectionId)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        console.error("Error loading documents:", error);
+        return;
+      }
+
+      setDocuments((data || []) as KnowledgeDocument[]);
+    };
+
+    loadDocuments();
+  }, [selectedCollectionId]);
+
+  const loadCollections = async (userId: string) => {
+    const { data, error } = await supabase
+      .from("knowledge_collections")
+      .select("id, name, description, created_at")
+      .eq("user_id", userId)
+      .order("name", { ascending: true });
+
+    if (error) {
+      console.error("Error loading collections:", error);
+      return;
+    }
+
+    const loaded = (data || []) as KnowledgeCollection[];
+    setCollections(loaded);
+    setSelectedCollectionId(prev => prev ?? loaded[0]?.id ?? null);
+  };
+
+  const updateDocument = (id: string, changes: Partial<KnowledgeDocument>) => {
+    setDocuments(prev => prev.map(d => d.id === id ? { ...d, ...changes } : d));
+  };
+
+  const indexDocument = async (documentId: string) => {
+    updateDocument(documentId, { status: "indexing", error: null });
+
+    try {
+      const response = await fetch(edgeFunctionUrl("index-document"), {
+        method: "POST",
+        headers: await getEdgeFunctionHeaders(),
+        body: JSON.stringify({ document_id: documentId }),
+      });
+
+      if (!response.ok) {
+        throw await readEdgeFunctionError(response, "Failed to index document");
+      }
+    } catch (error) {
+      toast({
+        title: "Indexing failed",
+        description: error instanceof Error ? error.message : "Failed to index document",
+        variant: "destructive",
+      });
+    }
+
+    // The function records the outcome on the row, including failures
+    const { data } = await supabase
+      .from("knowledge_documents")
+      .select("status, error, chunk_count")
+      .eq("id", documentId)
+      .maybeSingle();
+    if (data) updateDocument(documentId, data as Partial<KnowledgeDocument>);
+  };
+
+  const uploadDocument = async (collectionId: string, upload: PendingAttachment) => {
+    const updateUpload = (changes: Partial<PendingAttachment>) => {
+      setUploads(prev => prev.map(u => u.id === upload.id ? { ...u, ...changes } : u));
+    };
+
+    const fileExt = upload.file.name.split(".").pop();
+    const storagePath = `knowledge/${user.id}/${collectionId}/${upload.id}.${fileExt}`;
+
+    updateUpload({ status: "uploading" });
+    try {
+      await uploadWithProgress("chat-files", storagePath, upload.file, (progress) => updateUpload({ progress }));
+    } catch (error) {
+      updateUpload({ status: "error", error: error instanceof Error ? error.message : "Upload failed" });
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("knowledge_documents")
+      .insert({
+        collection_id: collectionId,
+        user_id: user.id,
+        storage_path: storagePath,
+        file_name: upload.file.name,
+        file_type: upload.file.type || null,
+        file_size: upload.file.size,
+      })
+      .select("id, collection_id, storage_path, file_name, file_type, file_size, status, error, chunk_count, created_at")
+      .single();
+
+    if (error || !data) {
+      await supabase.storage.from("chat-files").remove([storagePath]);
+      updateUpload({ status: "error", error: "Failed to save document" });
+      return;
+    }
+
+    updateUpload({ status: "done", storagePath });
+    setDocuments(prev => [data as KnowledgeDocument, ...prev]);
+    await indexDocument(data.id);
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (!user || !selectedCollectionId || files.length === 0) return;
+
+    const tooLarge = files.filter(f => f.size > MAX_ATTACHMENT_SIZE);
+    if (tooLarge.length > 0) {
+      toast({
+        title: "File too large",
+        description: `${tooLarge.map(f => f.name).join(", ")} ${tooLarge.length === 1 ? "is" : "are"} over the ${MAX_ATTACHMENT_SIZE / 1024 / 1024}MB limit`,
+        variant: "destructive",
+      });
+    }
+
+    const pending: PendingAttachment[] = files
+      .filter(f => f.size <= MAX_ATTACHMENT_SIZE)
+      .map(file => ({ id: crypto.randomUUID(), file, progress: 0, status: "queued" }));
+    if (pending.length === 0) return;
+
+    setUploads(prev => [...prev, ...pending]);
+    const collectionId = selectedCollectionId;
+    await Promise.all(pending.map(upload => uploadDocument(collectionId, upload)));
+
+    // Finished files now show in the table; only failures stay in the tray
+    const finished = new Set(pending.map(u => u.id));
+    setUploads(prev => prev.filter(u => !(finished.has(u.id) && u.status === "done")));
+  };
+
+  const deleteDocument = async (document: KnowledgeDocument) => {
+    const { error } = await supabase.from("knowledge_documents").delete().eq("id", document.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete document",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await supabase.storage.from("chat-files").remove([document.storage_path]);
+    setDocuments(prev => prev.filter(d => d.id !== document.id));
+  };
+
+  const openCollectionDialog = (collection: KnowledgeCollection | null) => {
+    setEditingCollection(collection);
+    setShowCollectionDialog(true);
+  };
+
+  const handleCollectionSaved = (collection: KnowledgeCollection) => {
+    setCollections(prev => {
+      const exists = prev.some(c => c.id === collection.id);
+      const next = exists ? prev.map(c => c.id === collection.id ? collection : c) : [...prev, collection];
+      return next.sort((a, b) => a.name.localeCompare(b.name));
+    });
+    setSelectedCollectionId(collection.id);
+  };
+
+  const handleCollectionDeleted = (collectionId: string) => {
+    const remaining = collections.filter(c => c.id !== collectionId);
+    setCollections(remaining);
+    if (selectedCollectionId === collectionId) {
+      setSelectedCollectionId(remaining[0]?.id ?? null);
+    }
+  };
+
+  const renderStatus = (document: KnowledgeDocument) => {
+    switch (document.status) {
+      case "ready":
+        return <Badge variant="secondary">{document.chunk_count} sections</Badge>;
+      case "error":
+        return (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge variant="destructive">Failed</Badge>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs">{document.error || "Indexing failed"}</TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        );
+      default:
+        return (
+          <Badge variant="outline" className="gap-1">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Indexing
+          </Badge>
+        );
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-bg">
+      <div className="absolute inset-0 bg-[radial-gradient(circle_at_50%_50%,rgba(20,184,166,0.1),transparent_50%)]" />
+
+      <div className="relative max-w-5xl mx-auto p-6 space-y-6">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/")}
+            className="hover:bg-primary/10"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 rounded-xl bg-gradient-primary flex items-center justify-center shadow-glow">
+              <Sparkles className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-3xl font-bold">Knowledge Base</h1>
+              <p className="text-sm text-muted-foreground">Collections of documents any conversation can search</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-[260px_1fr]">
+          <Card className="p-4 space-y-3 border-border/50 shadow-glow backdrop-blur-sm bg-card/95 h-fit">
+            <div className="flex items-center justify-between">
+              <h2 className="font-semibold">Collections</h2>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openCollectionDialog(null)}>
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+            {collections.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No collections yet.</p>
+            ) : (
+              <div className="space-y-1">
+                {collections.map((collection) => (
+                  <button
+                    key={collection.id}
+                    onClick={() => setSelectedCollectionId(collection.id)}
+                    className={`w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-sm transition-colors ${
+                      collection.id === selectedCollectionId ? "bg-primary/10 text-primary" : "hover:bg-secondary"
+                    }`}
+                  >
+                    <BookOpen className="w-4 h-4 flex-shrink-0" />
+                    <span className="truncate">{collection.name}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </Card>
+
+          <Card className="p-6 space-y-4 border-border/50 shadow-glow backdrop-blur-sm bg-card/95">
+            {!selectedCollection ? (
+              <div className="text-center py-12 space-y-4">
+                <BookOpen className="w-10 h-10 mx-auto text-muted-foreground" />
+                <p className="text-muted-foreground">
+                  Create a collection, add documents to it, then pick it from the chat header to search it.
+                </p>
+                <Button onClick={() => openCollectionDialog(null)} className="bg-gradient-primary hover:opacity-90">
+                  <Plus className="w-4 h-4 mr-2" />
+                  New Collection
+                </Button>
+              </div>
+            ) : (
+              <>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <h2 className="text-xl font-semibold truncate">{selectedCollection.name}</h2>
+                    {selectedCollection.description && (
+                      <p className="text-sm text-muted-foreground">{selectedCollection.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <Button variant="outline" size="icon" onClick={() => openCollectionDialog(selectedCollection)}>
+                      <Settings2 className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={isUploading}
+                      className="bg-gradient-primary hover:opacity-90"
+                    >
+                      <Upload className="w-4 h-4 mr-2" />
+                      Add Documents
+                    </Button>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      multiple
+                      onChange={handleFileSelect}
+                      className="hidden"
+                      accept=".pdf,.docx,.xlsx,.xls,.csv,.tsv,.txt,.md,.json,.html,.js,.ts,.tsx,.py"
+                    />
+                  </div>
+                </div>
+
+                <AttachmentTray
+                  attachments={uploads}
+                  disabled={isUploading}
+                  onRemove={(id) => setUploads(prev => prev.filter(u => u.id !== id))}
+                />
+
+                {collectionDocuments.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-6 text-center">
+                    No documents yet. PDF, Word, Excel, CSV and text files up to {MAX_ATTACHMENT_SIZE / 1024 / 1024}MB are supported.
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Document</TableHead>
+                        <TableHead>Size</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="w-[88px]" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {collectionDocuments.map((document) => (
+                        <TableRow key={document.id}>
+                          <TableCell className="max-w-[280px]">
+                            <div className="flex items-center gap-2 min-w-0">
+                              <FileText className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                              <span className="truncate">{document.file_name}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">{formatSize(document.file_size)}</TableCell>
+                          <TableCell>{renderStatus(document)}</TableCell>
+                          <TableCell>
+                            <div className="flex justify-end gap-1">
+                              {document.status === "error" && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8"
+                                  onClick={() => indexDocument(document.id)}
+                                  title="Retry indexing"
+                                >
+                                  <RefreshCw className="w-4 h-4" />
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 hover:text-destructive"
+                                onClick={() => deleteDocument(document)}
+                                disabled={document.status === "indexing"}
+                                title="Delete document"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </>
+            )}
+          </Card>
+        </div>
+      </div>
+
+      {user && (
+        <CollectionDialog
+          open={showCollectionDialog}
+          onOpenChange={setShowCollectionDialog}
+          userId={user.id}
+          collection={editingCollection}
+          onSaved={handleCollectionSaved}
+          onDeleted={handleCollectionDeleted}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Knowledge;
@@ -6,7 +6,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, User, Lock, Sparkles, AlertTriangle, Shield, QrCode } from "lucide-react";
+import { ArrowLeft, User, Lock, Sparkles, AlertTriangle, Shield, QrCode, MessageSquareWarning, ThumbsUp, ThumbsDown, BarChart3 } from "lucide-react";
 import { z } from "zod";
 import { PasswordStrengthIndicator } from "@/components/PasswordStrengthIndicator";
 import {
@@ -22,6 +22,33 @@ import {
 } from "@/components/ui/alert-dialog";
 import QRCode from "qrcode";
 import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { getFeedbackCategoryLabel } from "@/lib/feedback";
+import { estimateUsageCost, formatCost, getModelLabel } from "@/lib/models";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface FeedbackHistoryEntry {
+  id: string;
+  rating: "up" | "down";
+  category: string | null;
+  reason: string | null;
+  created_at: string;
+  message_content: string;
+  conversation_title: string;
+}
+
+interface DailyUsage {
+  day: string;
+  feature: string;
+  model: string;
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  // Estimated in US dollars; null for a model without a known price
+  cost: number | null;
+}
+
+const USAGE_DAYS = 30;
 
 const profileSchema = z.object({
   display_name: z.string().trim().min(1, "Display name cannot be empty").max(50, "Display name must be less than 50 characters"),
@@ -50,6 +77,9 @@ const Profile = () => {
   const [totpSecret, setTotpSecret] = useState("");
   const [verificationCode, setVerificationCode] = useState("");
   const [pendingFactorId, setPendingFactorId] = useState<string | null>(null);
+  const [feedbackHistory, setFeedbackHistory] = useState<FeedbackHistoryEntry[]>([]);
+  const [feedbackFilter, setFeedbackFilter] = useState<"all" | "down">("down");
+  const [dailyUsage, setDailyUsage] = useState<DailyUsage[]>([]);
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -68,6 +98,61 @@ const Profile = () => {
     checkAuth();
   }, [navigate]);
 
+  useEffect(() => {
+    if (!user) return;
+
+    const loadFeedbackHistory = async () => {
+      let query = supabase
+        .from("message_feedback_history")
+        .select("id, rating, category, reason, created_at, message_content, conversation_title")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false })
+        .limit(20);
+
+      if (feedbackFilter === "down") {
+        query = query.eq("rating", "down");
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        console.error("Error loading feedback history:", error);
+        return;
+      }
+
+      setFeedbackHistory((data || []) as FeedbackHistoryEntry[]);
+    };
+
+    loadFeedbackHistory();
+  }, [user, feedbackFilter]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const loadUsage = async () => {
+      const { data, error } = await supabase.rpc("get_daily_usage", { days: USAGE_DAYS });
+      if (error) {
+        console.error("Error loading usage:", error);
+        return;
+      }
+
+      // bigint columns arrive as strings
+      setDailyUsage(
+        (data || []).map((row) => {
+          const totals = {
+            ...row,
+            requests: Number(row.requests),
+            prompt_tokens: Number(row.prompt_tokens),
+            completion_tokens: Number(row.completion_tokens),
+            total_tokens: Number(row.total_tokens),
+          };
+          return { ...totals, cost: estimateUsageCost(totals) };
+        })
+      );
+    };
+
+    loadUsage();
+  }, [user]);
+
   const checkTwoFactorStatus = async () => {
     try {
       const { data, error } = await supabase.auth.mfa.listFactors();
@@ -312,6 +397,10 @@ const Profile = () => {
   };
 
   const isAnonymous = user?.is_anonymous;
+  const totalUsageTokens = dailyUsage.reduce((sum, row) => sum + row.total_tokens, 0);
+  const totalUsageRequests = dailyUsage.reduce((sum, row) => sum + row.requests, 0);
+  // Models without a known price count as free, so this is a lower bound
+  const totalUsageCost = dailyUsage.reduce((sum, row) => sum + (row.cost ?? 0), 0);
 
   return (
     <div className="min-h-screen bg-gradient-bg">
@@ -520,6 +609,130 @@ const Profile = () => {
           </Card>
         )}
 
+        {/* Feedback History */}
+        <Card className="p-6 space-y-4 border-border/50 shadow-glow backdrop-blur-sm bg-card/95">
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <div className="flex items-center gap-3">
+              <MessageSquareWarning className="w-5 h-5 text-primary" />
+              <h2 className="text-xl font-semibold">Feedback History</h2>
+            </div>
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant={feedbackFilter === "down" ? "secondary" : "ghost"}
+                onClick={() => setFeedbackFilter("down")}
+              >
+                Bad answers
+              </Button>
+              <Button
+                size="sm"
+                variant={feedbackFilter === "all" ? "secondary" : "ghost"}
+                onClick={() => setFeedbackFilter("all")}
+              >
+                All
+              </Button>
+            </div>
+          </div>
+
+          {feedbackHistory.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No feedback given yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {feedbackHistory.map((entry) => (
+                <div key={entry.id} className="p-3 rounded-lg border border-border/50 space-y-1">
+                  <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1.5 truncate">
+                      {entry.rating === "up" ? (
+                        <ThumbsUp className="w-3 h-3 text-primary flex-shrink-0" />
+                      ) : (
+                        <ThumbsDown className="w-3 h-3 text-destructive flex-shrink-0" />
+                      )}
+                      <span className="truncate">{entry.conversation_title}</span>
+                    </span>
+                    <span className="flex-shrink-0">{new Date(entry.created_at).toLocaleDateString()}</span>
+                  </div>
+                  <p className="text-sm line-clamp-2">{entry.message_content}</p>
+                  {(entry.category || entry.reason) && (
+                    <p className="text-xs text-muted-foreground">
+                      {getFeedbackCategoryLabel(entry.category)}
+                      {entry.category && entry.reason && " — "}
+                      {entry.reason}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {/* Usage */}
+        <Card className="p-6 space-y-4 border-border/50 shadow-glow backdrop-blur-sm bg-card/95">
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <div className="flex items-center gap-3">
+              <BarChart3 className="w-5 h-5 text-primary" />
+              <h2 className="text-xl font-semibold">Usage</h2>
+            </div>
+            <span className="text-xs text-muted-foreground">Last {USAGE_DAYS} days</span>
+          </div>
+
+          {dailyUsage.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No usage recorded yet.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="p-3 rounded-lg border border-border/50">
+                  <p className="text-xs text-muted-foreground">Requests</p>
+                  <p className="text-2xl font-semibold">{totalUsageRequests.toLocaleString()}</p>
+                </div>
+                <div className="p-3 rounded-lg border border-border/50">
+                  <p className="text-xs text-muted-foreground">Tokens</p>
+                  <p className="text-2xl font-semibold">{totalUsageTokens.toLocaleString()}</p>
+                </div>
+                <div className="p-3 rounded-lg border border-border/50" title="Estimated at list prices">
+                  <p className="text-xs text-muted-foreground">Est. cost</p>
+                  <p className="text-2xl font-semibold">{formatCost(totalUsageCost)}</p>
+                </div>
+              </div>
+
+              <div className="max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Day</TableHead>
+                      <TableHead>Feature</TableHead>
+                      <TableHead>Model</TableHead>
+                      <TableHead className="text-right">Requests</TableHead>
+                      <TableHead className="text-right">Tokens</TableHead>
+                      <TableHead className="text-right">Est. cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dailyUsage.map((row) => (
+                      <TableRow key={`${row.day}-${row.feature}-${row.model}`}>
+                        <TableCell className="whitespace-nowrap">
+                          {new Date(`${row.day}T00:00:00`).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>{row.feature}</TableCell>
+                        <TableCell>{getModelLabel(row.model)}</TableCell>
+                        <TableCell className="text-right">{row.requests.toLocaleString()}</TableCell>
+                        <TableCell
+                          className="text-right"
+                          title={`${row.prompt_tokens.toLocaleString()} prompt / ${row.completion_tokens.toLocaleString()} completion`}
+                        >
+                          {row.total_tokens.toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {row.cost === null ? "—" : formatCost(row.cost)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+        </Card>
+
         {/* Account Stats */}
         <Card className="p-6 border-border/50 shadow-glow backdrop-blur-sm bg-card/95">
           <h2 className="text-xl font-semibold mb-4">Account Details</h2>
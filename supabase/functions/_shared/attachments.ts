@@ -0,0 +1,132 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { extractDocument, UnsupportedFileError } from "./extract.ts";
+
+export interface StoredAttachment {
+  id: string;
+  storage_path: string;
+  file_name: string;
+  file_type: string | null;
+  extracted_text: string | null;
+  position: number;
+  /** Set by chat once it knows the document has chunks to retrieve from */
+  indexed?: boolean;
+}
+
+// Enough for long source files and reports without crowding out the conversation
+export const MAX_EXTRACTED_CHARS = 100000;
+// Documents longer than this are chunked and embedded; once indexed, chat retrieves passages instead of inlining them
+export const INLINE_DOCUMENT_CHARS = 12000;
+// Images are sent as-is; this is only what the context budget assumes they cost
+export const IMAGE_TOKEN_ESTIMATE = 1000;
+
+export const isImageAttachment = (attachment: { file_type: string | null }) =>
+  !!attachment.file_type?.startsWith("image/");
+
+export const isLongDocument = (attachment: StoredAttachment) =>
+  !isImageAttachment(attachment) && (attachment.extracted_text?.length ?? 0) > INLINE_DOCUMENT_CHARS;
+
+// Until index-document has chunked a long file, its truncated text is inlined instead
+export const isRetrievalDocument = (attachment: StoredAttachment) =>
+  isLongDocument(attachment) && !!attachment.indexed;
+
+/** Text a document contributes to the message it is attached to */
+export const documentPartText = (attachment: StoredAttachment) =>
+  isRetrievalDocument(attachment)
+    ? `Attached file "${attachment.file_name}" is too long to include in full. Passages relevant to the latest message are provided separately.`
+    : `Attached file "${attachment.file_name}":\n\n\`\`\`\n${attachment.extracted_text ?? ""}\n\`\`\``;
+
+/**
+ * Downloads and extracts one attachment, storing the (truncated) text on its
+ * row so the file is only read once. Returns the full text, or null when the
+ * file couldn't be read and a placeholder was stored instead.
+ */
+export const extractAttachmentText = async (supabase: SupabaseClient, attachment: StoredAttachment) => {
+  let fullText: string | null = null;
+
+  const { data, error } = await supabase.storage.from("chat-files").download(attachment.storage_path);
+  if (error || !data) {
+    console.error("Failed to download attachment:", attachment.storage_path, error);
+    attachment.extracted_text = `[${attachment.file_name} could not be loaded]`;
+    return null;
+  }
+
+  try {
+    const { text } = await extractDocument(new Uint8Array(await data.arrayBuffer()), attachment.file_name, attachment.file_type);
+    fullText = text;
+    attachment.extracted_text = text.length > MAX_EXTRACTED_CHARS
+      ? `${text.slice(0, MAX_EXTRACTED_CHARS)}\n\n[Truncated: ${attachment.file_name} is longer than ${MAX_EXTRACTED_CHARS} characters]`
+      : text;
+  } catch (error) {
+    // Stored as well, so an unreadable file isn't retried on every turn
+    attachment.extracted_text = error instanceof UnsupportedFileError
+      ? `[${error.message}]`
+      : `[${attachment.file_name} could not be read]`;
+    console.error("Failed to extract attachment text:", attachment.file_name, error);
+  }
+
+  const { error: updateError } = await supabase
+    .from("message_attachments")
+    .update({ extracted_text: attachment.extracted_text })
+    .eq("id", attachment.id);
+  if (updateError) console.error("Failed to store extracted text:", updateError);
+
+  return fullText;
+};
+
+/**
+ * Fills in extracted_text for document attachments that don't have it yet,
+ * for files sent before index-document got to them. Embedding is left to
+ * index-document so it never holds up a chat reply.
+ */
+export const ensureExtractedText = async (supabase: SupabaseClient, attachments: StoredAttachment[]) => {
+  const missing = attachments.filter((a) => !isImageAttachment(a) && a.extracted_text === null);
+  await Promise.all(missing.map((attachment) => extractAttachmentText(supabase, attachment)));
+};
+
+/** Short-lived signed URLs the gateway can fetch image attachments from */
+export const signImageUrls = async (supabase: SupabaseClient, attachments: StoredAttachment[]) => {
+  const paths = [...new Set(attachments.filter(isImageAttachment).map((a) => a.storage_path))];
+  const urls = new Map<string, string>();
+  if (paths.length === 0) return urls;
+
+  const { data, error } = await supabase.storage.from("chat-files").createSignedUrls(paths, 600);
+  if (error) {
+    console.error("Failed to sign image URLs:", error);
+    return urls;
+  }
+
+  for (const entry of data || []) {
+    if (entry.path && entry.signedUrl) urls.set(entry.path, entry.signedUrl);
+  }
+  return urls;
+};
+
+/**
+ * OpenAI-style content for a message: plain text when it has no attachments,
+ * otherwise its text followed by one part per file. Image parts are only
+ * allowed in user turns, so images on assistant replies (generated ones) are
+ * mentioned by name instead.
+ */
+export const toMessageContent = (
+  role: string,
+  content: string,
+  attachments: StoredAttachment[],
+  imageUrls: Map<string, string>
+) => {
+  if (attachments.length === 0) return content;
+
+  const parts: Record<string, unknown>[] = [{ type: "text", text: content }];
+  for (const attachment of attachments) {
+    if (isImageAttachment(attachment) && role !== "user") {
+      parts.push({ type: "text", text: `[Image: ${attachment.file_name}]` });
+    } else if (isImageAttachment(attachment)) {
+      const url = imageUrls.get(attachment.storage_path);
+      parts.push(url
+        ? { type: "image_url", image_url: { url } }
+        : { type: "text", text: `[Image ${attachment.file_name} could not be loaded]` });
+    } else {
+      parts.push({ type: "text", text: documentPartText(attachment) });
+    }
+  }
+  return parts;
+};
@@ -0,0 +1,23 @@
+import { createClient, type SupabaseClient, type User } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Builds a Supabase client that acts as the caller, so RLS scopes every read
+ * and write to their own rows. Returns null when the request has no valid JWT.
+ */
+export const getUserClient = async (
+  req: Request
+): Promise<{ supabase: SupabaseClient; user: User } | null> => {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_ANON_KEY")!,
+    { global: { headers: { Authorization: authHeader } } }
+  );
+
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+
+  return { supabase, user };
+};
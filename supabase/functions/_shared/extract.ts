@@ -0,0 +1,241 @@
+import { extractText as extractPdfPages, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import { strFromU8, unzipSync } from "https://esm.sh/fflate@0.8.2";
+// SheetJS stopped publishing to npm at 0.18.5; patched releases only ship from its own CDN
+// @deno-types="https://cdn.sheetjs.com/xlsx-0.20.3/package/types/index.d.ts"
+import * as XLSX from "https://cdn.sheetjs.com/xlsx-0.20.3/package/xlsx.mjs";
+
+export type DocumentFormat = "pdf" | "docx" | "spreadsheet" | "csv" | "text";
+
+export class UnsupportedFileError extends Error {
+  constructor(fileName: string, fileType: string | null | undefined) {
+    super(
+      `"${fileName}"${fileType ? ` (${fileType})` : ""} can't be read. ` +
+      "Supported files are images, PDF, Word (.docx), Excel (.xlsx, .xls), CSV and plain text or code."
+    );
+    this.name = "UnsupportedFileError";
+  }
+}
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  text: string;
+}
+
+// Spreadsheets can be huge; the model rarely needs more than this many rows per sheet
+const MAX_TABLE_ROWS = 500;
+
+const extensionOf = (fileName: string) => fileName.split(".").pop()?.toLowerCase() ?? "";
+
+const detectFormat = (fileName: string, fileType: string | null | undefined): DocumentFormat | null => {
+  const ext = extensionOf(fileName);
+  const type = fileType?.toLowerCase() ?? "";
+
+  if (type === "application/pdf" || ext === "pdf") return "pdf";
+  if (type === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" || ext === "docx") return "docx";
+  if (
+    type === "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" ||
+    type === "application/vnd.ms-excel" ||
+    ext === "xlsx" || ext === "xls"
+  ) return "spreadsheet";
+  if (type === "text/csv" || type === "text/tab-separated-values" || ext === "csv" || ext === "tsv") return "csv";
+  if (type === "application/msword" || ext === "doc" || ext === "ppt" || ext === "pptx") return null;
+  return "text";
+};
+
+const decodeXmlEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, "&");
+
+/** Renders rows as a Markdown table, which models read far more reliably than raw CSV */
+export const toMarkdownTable = (rows: string[][]) => {
+  const nonEmpty = rows.filter((row) => row.some((cell) => cell.trim() !== ""));
+  if (nonEmpty.length === 0) return "(empty)";
+
+  const width = Math.max(...nonEmpty.map((row) => row.length));
+  const shown = nonEmpty.slice(0, MAX_TABLE_ROWS + 1);
+  const cell = (value: string | undefined) => (value ?? "").replace(/\|/g, "\\|").replace(/\r?\n/g, " ").trim();
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => cell(row[i])).join(" | ")} |`;
+
+  const table = [
+    line(shown[0]),
+    `| ${Array(width).fill("---").join(" | ")} |`,
+    ...shown.slice(1).map(line),
+  ].join("\n");
+
+  return nonEmpty.length > shown.length
+    ? `${table}\n\n[${nonEmpty.length - shown.length} more rows not shown]`
+    : table;
+};
+
+/** Minimal RFC 4180 parser: quoted fields, escaped quotes and newlines inside quotes */
+export const parseCsv = (text: string, delimiter = ",") => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const extractPdf = async (bytes: Uint8Array) => {
+  const pdf = await getDocumentProxy(bytes);
+  const { totalPages, text } = await extractPdfPages(pdf, { mergePages: false });
+  const pages = text as string[];
+  if (!pages.some((page) => page.trim())) {
+    return "[This PDF has no text layer; it is probably scanned. Send the pages as images to have them read.]";
+  }
+  return pages.map((page, i) => `--- Page ${i + 1} of ${totalPages} ---\n${page.trim()}`).join("\n\n");
+};
+
+const extractDocx = (bytes: Uint8Array) => {
+  const files = unzipSync(bytes, { filter: (file) => file.name === "word/document.xml" });
+  const xml = files["word/document.xml"];
+  if (!xml) throw new Error("Not a valid .docx file");
+
+  const paragraphs = strFromU8(xml)
+    .split(/<\/w:p>/)
+    .map((paragraph) => {
+      const text = (paragraph.match(/<w:t(?:\s[^>]*)?>[^<]*<\/w:t>|<w:tab\/>|<w:br\/>/g) ?? [])
+        .map((part) => {
+          if (part === "<w:tab/>") return "\t";
+          if (part === "<w:br/>") return "\n";
+          return decodeXmlEntities(part.replace(/<[^>]+>/g, ""));
+        })
+        .join("");
+      const heading = paragraph.match(/<w:pStyle w:val="Heading(\d)"\/>/);
+      return heading && text.trim() ? `${"#".repeat(Number(heading[1]))} ${text}` : text;
+    })
+    .filter((text) => text.trim() !== "");
+
+  return paragraphs.join("\n\n");
+};
+
+const extractSpreadsheet = (bytes: Uint8Array) => {
+  const workbook = XLSX.read(bytes, { type: "array" });
+  return workbook.SheetNames.map((name: string) => {
+    const rows = XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1, raw: false, defval: "" }) as string[][];
+    return `## Sheet: ${name}\n\n${toMarkdownTable(rows.map((row) => row.map(String)))}`;
+  }).join("\n\n");
+};
+
+const extractCsv = (text: string, fileName: string) => {
+  const firstLine = text.split("\n", 1)[0];
+  const delimiter = extensionOf(fileName) === "tsv" || (firstLine.includes("\t") && !firstLine.includes(","))
+    ? "\t"
+    : ",";
+  return toMarkdownTable(parseCsv(text, delimiter));
+};
+
+const looksBinary = (text: string) => {
+  const sample = text.slice(0, 4000);
+  // NUL bytes and U+FFFD replacement characters only show up in decoded binary data
+  let unreadable = 0;
+  for (let i = 0; i < sample.length; i++) {
+    const code = sample.charCodeAt(i);
+    if (code === 0 || code === 0xfffd) unreadable++;
+  }
+  return sample.length > 0 && unreadable / sample.length > 0.05;
+};
+
+/**
+ * Pulls readable text out of a document according to its format. Throws
+ * UnsupportedFileError for binary files we have no extractor for.
+ */
+export const extractDocument = async (
+  bytes: Uint8Array,
+  fileName: string,
+  fileType: string | null | undefined
+): Promise<ExtractedDocument> => {
+  const format = detectFormat(fileName, fileType);
+  if (!format) throw new UnsupportedFileError(fileName, fileType);
+
+  switch (format) {
+    case "pdf":
+      return { format, text: await extractPdf(bytes) };
+    case "docx":
+      return { format, text: extractDocx(bytes) };
+    case "spreadsheet":
+      return { format, text: extractSpreadsheet(bytes) };
+    case "csv":
+      return { format, text: extractCsv(new TextDecoder().decode(bytes), fileName) };
+    default: {
+      const text = new TextDecoder("utf-8", { fatal: false }).decode(bytes);
+      if (looksBinary(text)) throw new UnsupportedFileError(fileName, fileType);
+      return { format, text };
+    }
+  }
+};
+
+/**
+ * Splits text into chunks of at most `maxChars`, preferring paragraph, then
+ * line, then sentence boundaries. Consecutive chunks share `overlap` characters
+ * so a passage cut at a boundary still appears whole in one of them.
+ */
+export const chunkText = (text: string, maxChars = 4000, overlap = 200) => {
+  const pieces: string[] = [];
+  const split = (segment: string, separators: string[]) => {
+    if (segment.length <= maxChars) {
+      pieces.push(segment);
+      return;
+    }
+    const [separator, ...rest] = separators;
+    if (separator === undefined) {
+      for (let i = 0; i < segment.length; i += maxChars) pieces.push(segment.slice(i, i + maxChars));
+      return;
+    }
+    segment.split(separator).forEach((part, i, parts) =>
+      split(i < parts.length - 1 ? part + separator : part, rest)
+    );
+  };
+  split(text, ["\n\n", "\n", ". "]);
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    if (current && current.length + piece.length > maxChars) {
+      chunks.push(current.trim());
+      // slice(-0) would keep the whole chunk, so no overlap needs its own case
+      current = overlap > 0 && piece.length + overlap <= maxChars ? current.slice(-overlap) : "";
+    }
+    current += piece;
+  }
+  if (current.trim()) chunks.push(current.trim());
+  return chunks;
+};
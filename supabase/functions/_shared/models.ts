@@ -0,0 +1,20 @@
+// Models the edge functions may forward to the AI gateway. Anything else
+// sent by a client is rejected so a caller can't pick an arbitrary model.
+export const DEFAULT_CHAT_MODEL = "google/gemini-2.5-flash";
+
+export const ALLOWED_CHAT_MODELS = [
+  "google/gemini-2.5-pro",
+  "google/gemini-2.5-flash",
+  "google/gemini-2.5-flash-lite",
+  "openai/gpt-5",
+  "openai/gpt-5-mini",
+  "openai/gpt-5-nano",
+];
+
+export const IMAGE_MODEL = "google/gemini-2.5-flash-image-preview";
+
+// Cheap model for small housekeeping calls such as conversation titles
+export const UTILITY_MODEL = "google/gemini-2.5-flash-lite";
+
+export const isAllowedChatModel = (model: unknown): model is string =>
+  typeof model === "string" && ALLOWED_CHAT_MODELS.includes(model);
@@ -0,0 +1,142 @@
+import type { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+import type { UsageFeature } from "./usage.ts";
+
+interface FeatureLimit {
+  /** Requests allowed within any sliding window of windowSeconds */
+  maxRequests: number;
+  windowSeconds: number;
+  /** Requests allowed per UTC day */
+  dailyQuota: number;
+}
+
+type Tier = "user" | "guest";
+
+/** Usage features plus work that has limits but no AI gateway usage to record */
+export type RateLimitedFeature = UsageFeature | "index-document";
+
+// Guests come from anonymous sign-in, so they get a much smaller allowance
+const DEFAULT_LIMITS: Record<Tier, Record<RateLimitedFeature, FeatureLimit>> = {
+  user: {
+    chat: { maxRequests: 20, windowSeconds: 60, dailyQuota: 500 },
+    "analyze-file": { maxRequests: 5, windowSeconds: 60, dailyQuota: 100 },
+    "generate-image": { maxRequests: 5, windowSeconds: 60, dailyQuota: 50 },
+    "generate-title": { maxRequests: 20, windowSeconds: 60, dailyQuota: 500 },
+    "index-document": { maxRequests: 10, windowSeconds: 60, dailyQuota: 200 },
+  },
+  guest: {
+    chat: { maxRequests: 5, windowSeconds: 60, dailyQuota: 30 },
+    "analyze-file": { maxRequests: 2, windowSeconds: 60, dailyQuota: 5 },
+    "generate-image": { maxRequests: 1, windowSeconds: 60, dailyQuota: 3 },
+    "generate-title": { maxRequests: 5, windowSeconds: 60, dailyQuota: 30 },
+    "index-document": { maxRequests: 2, windowSeconds: 60, dailyQuota: 10 },
+  },
+};
+
+const envInt = (name: string) => {
+  const value = Number(Deno.env.get(name));
+  return Number.isInteger(value) && value > 0 ? value : undefined;
+};
+
+/**
+ * Limits for a feature, overridable per deployment through env vars such as
+ * CHAT_DAILY_QUOTA or GUEST_GENERATE_IMAGE_MAX_REQUESTS.
+ */
+const getLimit = (tier: Tier, feature: RateLimitedFeature): FeatureLimit => {
+  const defaults = DEFAULT_LIMITS[tier][feature];
+  const prefix = `${tier === "guest" ? "GUEST_" : ""}${feature.toUpperCase().replace(/-/g, "_")}`;
+  return {
+    maxRequests: envInt(`${prefix}_MAX_REQUESTS`) ?? defaults.maxRequests,
+    windowSeconds: envInt(`${prefix}_WINDOW_SECONDS`) ?? defaults.windowSeconds,
+    dailyQuota: envInt(`${prefix}_DAILY_QUOTA`) ?? defaults.dailyQuota,
+  };
+};
+
+/**
+ * Counts this request against the caller's limits, as `cost` events when it
+ * does several units of work at once. Returns a 429 response to send back
+ * when they are over, or null to carry on.
+ */
+export const enforceRateLimit = async (
+  supabase: SupabaseClient,
+  user: User,
+  feature: RateLimitedFeature,
+  corsHeaders: Record<string, string>,
+  cost = 1
+): Promise<Response | null> => {
+  const tier: Tier = user.is_anonymous ? "guest" : "user";
+  const limit = getLimit(tier, feature);
+
+  const { data, error } = await supabase
+    .rpc("check_rate_limit", {
+      p_feature: feature,
+      p_window_seconds: limit.windowSeconds,
+      p_max_requests: limit.maxRequests,
+      p_daily_quota: limit.dailyQuota,
+      p_cost: cost,
+    })
+    .single();
+
+  if (error || !data) {
+    // Fail open: a limiter outage shouldn't take the whole app down
+    console.error("Rate limit check failed:", error);
+    return null;
+  }
+
+  if (data.allowed) return null;
+
+  const quotaExceeded = data.reason === "quota_exceeded";
+  // A request costing several units can be refused while a smaller one would still fit
+  const fewerWouldFit = cost > 1 && data.remaining > 0;
+  const message = fewerWouldFit
+    ? quotaExceeded
+      ? `Only ${data.remaining} left today. Request fewer and try again.`
+      : `Only ${data.remaining} allowed right now. Request fewer or wait a moment.`
+    : quotaExceeded
+      ? tier === "guest"
+        ? "Daily guest limit reached. Sign up for a free account to keep going."
+        : "Daily limit reached. Please try again tomorrow."
+      : "Too many requests. Please slow down.";
+
+  return new Response(
+    JSON.stringify({
+      error: message,
+      code: data.reason,
+      retry_after: data.retry_after,
+      reset_at: new Date(Date.now() + data.retry_after * 1000).toISOString(),
+      limit: data.request_limit,
+      remaining: data.remaining,
+      tier,
+    }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+        "Retry-After": String(data.retry_after),
+        "Access-Control-Expose-Headers": "Retry-After",
+      },
+    }
+  );
+};
+
+/** Same 429 shape for when the AI gateway itself is rate limiting us */
+export const upstreamRateLimitResponse = (upstream: Response, corsHeaders: Record<string, string>) => {
+  const retryAfter = Number(upstream.headers.get("Retry-After")) || 30;
+  return new Response(
+    JSON.stringify({
+      error: "The AI service is busy. Please try again shortly.",
+      code: "upstream_rate_limited",
+      retry_after: retryAfter,
+      reset_at: new Date(Date.now() + retryAfter * 1000).toISOString(),
+    }),
+    {
+      status: 429,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/json",
+        "Retry-After": String(retryAfter),
+        "Access-Control-Expose-Headers": "Retry-After",
+      },
+    }
+  );
+};
@@ -0,0 +1,219 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { chunkText } from "./extract.ts";
+
+// Provided by the Supabase Edge Runtime; runs the embedding model in-process
+declare const Supabase: {
+  ai: {
+    Session: new (model: string) => {
+      run: (input: string, options: { mean_pool: boolean; normalize: boolean }) => Promise<number[]>;
+    };
+  };
+};
+
+// gte-small reads at most 512 tokens, so chunks stay well under that
+const CHUNK_CHARS = 1500;
+const CHUNK_OVERLAP = 200;
+// Caps embedding work for a single upload; later sections beyond this are not searchable
+const MAX_CHUNKS_PER_DOCUMENT = 300;
+const DEFAULT_MATCH_COUNT = 6;
+
+let session: InstanceType<typeof Supabase.ai.Session> | null = null;
+
+const embed = (text: string) => {
+  session ??= new Supabase.ai.Session("gte-small");
+  return session.run(text, { mean_pool: true, normalize: true });
+};
+
+export interface RetrievedChunk {
+  attachment_id: string | null;
+  storage_path: string;
+  file_name: string;
+  chunk_index: number;
+  content: string;
+  similarity: number;
+}
+
+/** Numbered source for a reply; `index` matches the [n] markers the model is asked to use */
+export interface Citation {
+  index: number;
+  attachment_id: string | null;
+  storage_path: string;
+  file_name: string;
+  chunk_index: number;
+  excerpt: string;
+}
+
+interface IndexableDocument {
+  id: string;
+  storage_path: string;
+  file_name: string;
+}
+
+const embedChunks = async (text: string) => {
+  const chunks = chunkText(text, CHUNK_CHARS, CHUNK_OVERLAP).slice(0, MAX_CHUNKS_PER_DOCUMENT);
+  const embedded = [];
+  for (const [chunkIndex, content] of chunks.entries()) {
+    embedded.push({ chunk_index: chunkIndex, content, embedding: await embed(content) });
+  }
+  return embedded;
+};
+
+/**
+ * Chunks and embeds a document into document_chunks and returns how many
+ * chunks the file has. Files already indexed in the conversation (for example
+ * through an edited copy of the message) are skipped.
+ */
+export const indexDocument = async (
+  supabase: SupabaseClient,
+  conversationId: string,
+  attachment: IndexableDocument,
+  text: string
+) => {
+  const { count, error: countError } = await supabase
+    .from("document_chunks")
+    .select("id", { count: "exact", head: true })
+    .eq("conversation_id", conversationId)
+    .eq("storage_path", attachment.storage_path);
+
+  if (countError) throw countError;
+  if (count) return count;
+
+  const rows = (await embedChunks(text)).map((chunk) => ({
+    ...chunk,
+    conversation_id: conversationId,
+    attachment_id: attachment.id,
+    storage_path: attachment.storage_path,
+    file_name: attachment.file_name,
+  }));
+
+  const { error } = await supabase
+    .from("document_chunks")
+    .upsert(rows, { onConflict: "conversation_id,storage_path,chunk_index", ignoreDuplicates: true });
+
+  if (error) throw error;
+  return rows.length;
+};
+
+/** Which of the given files already have chunks in the conversation */
+export const indexedStoragePaths = async (
+  supabase: SupabaseClient,
+  conversationId: string,
+  storagePaths: string[]
+) => {
+  if (storagePaths.length === 0) return new Set<string>();
+
+  // Every indexed file has a first chunk, so this is one row per file
+  const { data, error } = await supabase
+    .from("document_chunks")
+    .select("storage_path")
+    .eq("conversation_id", conversationId)
+    .eq("chunk_index", 0)
+    .in("storage_path", storagePaths);
+
+  if (error) {
+    console.error("Failed to check document index:", error);
+    return new Set<string>();
+  }
+  return new Set((data || []).map((row: { storage_path: string }) => row.storage_path));
+};
+
+/** Top chunks in the conversation's documents for a question; empty on failure */
+export const retrieveChunks = async (
+  supabase: SupabaseClient,
+  conversationId: string,
+  query: string,
+  matchCount = DEFAULT_MATCH_COUNT
+): Promise<RetrievedChunk[]> => {
+  try {
+    const { data, error } = await supabase.rpc("match_document_chunks", {
+      query_embedding: await embed(query),
+      target_conversation_id: conversationId,
+      match_count: matchCount,
+    });
+    if (error) throw error;
+    return (data || []) as RetrievedChunk[];
+  } catch (error) {
+    console.error("Document retrieval failed:", error);
+    return [];
+  }
+};
+
+/**
+ * Replaces a knowledge base document's chunks with freshly embedded ones and
+ * returns how many were stored. Unlike conversation indexing this throws, so
+ * the caller can mark the document as failed.
+ */
+export const indexKnowledgeDocument = async (
+  supabase: SupabaseClient,
+  document: { id: string; collection_id: string },
+  text: string
+) => {
+  const rows = (await embedChunks(text)).map((chunk) => ({
+    ...chunk,
+    document_id: document.id,
+    collection_id: document.collection_id,
+  }));
+
+  const { error: deleteError } = await supabase.from("knowledge_chunks").delete().eq("document_id", document.id);
+  if (deleteError) throw deleteError;
+
+  const { error } = await supabase.from("knowledge_chunks").insert(rows);
+  if (error) throw error;
+
+  return rows.length;
+};
+
+/** Top chunks in a knowledge base collection for a question; empty on failure */
+export const retrieveKnowledgeChunks = async (
+  supabase: SupabaseClient,
+  collectionId: string,
+  query: string,
+  matchCount = DEFAULT_MATCH_COUNT
+): Promise<RetrievedChunk[]> => {
+  try {
+    const { data, error } = await supabase.rpc("match_knowledge_chunks", {
+      query_embedding: await embed(query),
+      target_collection_id: collectionId,
+      match_count: matchCount,
+    });
+    if (error) throw error;
+    return ((data || []) as Omit<RetrievedChunk, "attachment_id">[]).map((chunk) => ({
+      ...chunk,
+      attachment_id: null,
+    }));
+  } catch (error) {
+    console.error("Knowledge base retrieval failed:", error);
+    return [];
+  }
+};
+
+/** The closest chunks across several sources, so they share one set of citation numbers */
+export const mergeChunks = (...sources: RetrievedChunk[][]) =>
+  sources
+    .flat()
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, DEFAULT_MATCH_COUNT);
+
+/** System message carrying the retrieved passages, and the citations they map to */
+export const buildRetrievalContext = (chunks: RetrievedChunk[]) => {
+  const citations: Citation[] = chunks.map((chunk, i) => ({
+    index: i + 1,
+    attachment_id: chunk.attachment_id,
+    storage_path: chunk.storage_path,
+    file_name: chunk.file_name,
+    chunk_index: chunk.chunk_index,
+    excerpt: chunk.content.slice(0, 300),
+  }));
+
+  const passages = chunks
+    .map((chunk, i) => `[${i + 1}] ${chunk.file_name}, section ${chunk.chunk_index + 1}:\n${chunk.content}`)
+    .join("\n\n");
+
+  return {
+    citations,
+    message: {
+      role: "system",
+      content: `Passages from the user's documents that look relevant to their latest message. Use them if they help, and cite each one you rely on inline as [n]. Don't cite passages you didn't use.\n\n${passages}`,
+    },
+  };
+};
@@ -0,0 +1,49 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type UsageFeature = "chat" | "analyze-file" | "generate-image" | "generate-title";
+
+export interface GatewayUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface UsageEvent {
+  userId: string;
+  feature: UsageFeature;
+  model: string;
+  usage: GatewayUsage | null | undefined;
+  conversationId?: string | null;
+}
+
+/**
+ * Writes a usage_events row with the service role, since users may only read
+ * their usage. Failures are logged rather than thrown so they never break a reply.
+ */
+export const recordUsage = async ({ userId, feature, model, usage, conversationId = null }: UsageEvent) => {
+  try {
+    const admin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const promptTokens = usage?.prompt_tokens ?? 0;
+    const completionTokens = usage?.completion_tokens ?? 0;
+
+    const { error } = await admin.from("usage_events").insert({
+      user_id: userId,
+      conversation_id: conversationId,
+      feature,
+      model,
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: usage?.total_tokens ?? promptTokens + completionTokens,
+    });
+
+    if (error) {
+      console.error("Failed to record usage:", error);
+    }
+  } catch (error) {
+    console.error("Failed to record usage:", error);
+  }
+};
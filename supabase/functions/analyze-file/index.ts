@@ -1,82 +1,170 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { DEFAULT_CHAT_MODEL, isAllowedChatModel } from "../_shared/models.ts";
+import { getUserClient } from "../_shared/auth.ts";
+import { recordUsage } from "../_shared/usage.ts";
+import { enforceRateLimit, upstreamRateLimitResponse } from "../_shared/rateLimit.ts";
+import { chunkText, extractDocument, UnsupportedFileError } from "../_shared/extract.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+const MAX_FILES = 10;
+// Total document text sent to the model, shared evenly between the documents in a request
+const MAX_DOCUMENT_CHARS = 120000;
+const CHUNK_CHARS = 8000;
+
+// Files are referenced by their path in the chat-files bucket, never by URL, so the
+// function only ever fetches what the caller is allowed to read
+interface AnalyzeFile {
+  storage_path: string;
+  type?: string | null;
+  name: string;
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { fileUrl, fileType, fileName, prompt } = await req.json();
+    const body = await req.json();
+    const { prompt, model = DEFAULT_CHAT_MODEL, conversation_id = null } = body;
+
+    const files: AnalyzeFile[] = Array.isArray(body.files) ? body.files : [];
+
+    if (
+      files.length === 0 ||
+      files.length > MAX_FILES ||
+      files.some((f) => typeof f?.storage_path !== "string" || !f.storage_path || !f.name)
+    ) {
+      return new Response(
+        JSON.stringify({ error: `Provide between 1 and ${MAX_FILES} files, each with a storage_path and name` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!isAllowedChatModel(model)) {
+      return new Response(
+        JSON.stringify({ error: `Model "${model}" is not available` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
     const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
     if (!LOVABLE_API_KEY) {
       throw new Error("LOVABLE_API_KEY is not configured");
     }
 
-    // Determine if this is an image or document
-    const isImage = fileType?.startsWith("image/");
-    
-    let messages: any[];
-
-    if (isImage) {
-      // For images, use vision capabilities
-      messages = [
-        {
-          role: "system",
-          content: "You are a helpful AI assistant that analyzes images. Provide detailed descriptions and insights about what you see in the image."
-        },
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: prompt || `Please analyze this image (${fileName}) and describe what you see in detail.`
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: fileUrl
-              }
-            }
-          ]
-        }
-      ];
-    } else {
-      // For documents/text files, fetch the actual file content first
-      console.log("Fetching file content from:", fileUrl);
-      
-      let fileContent = "";
+    const auth = await getUserClient(req);
+    if (!auth) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { supabase, user } = auth;
+
+    const limited = await enforceRateLimit(supabase, user, "analyze-file", corsHeaders);
+    if (limited) return limited;
+
+    // Images go to the model as vision parts; documents are fetched, extracted and inlined as text
+    const documentCount = files.filter((f) => !f.type?.startsWith("image/")).length;
+    const charsPerDocument = Math.floor(MAX_DOCUMENT_CHARS / Math.max(documentCount, 1));
+    const parts: Record<string, unknown>[] = [];
+
+    for (const file of files) {
+      // Signing through the caller's client also checks they can see the file
+      const { data: signed, error: signError } = await supabase.storage
+        .from("chat-files")
+        .createSignedUrl(file.storage_path, 600);
+
+      if (signError || !signed) {
+        return new Response(
+          JSON.stringify({ error: `File "${file.name}" not found` }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      if (file.type?.startsWith("image/")) {
+        parts.push(
+          { type: "text", text: `Image "${file.name}":` },
+          { type: "image_url", image_url: { url: signed.signedUrl } }
+        );
+        continue;
+      }
+
+      console.log("Fetching file content for:", file.name);
+
+      let bytes: Uint8Array;
       try {
-        const fileResponse = await fetch(fileUrl);
-        if (fileResponse.ok) {
-          fileContent = await fileResponse.text();
-          console.log("File content fetched, length:", fileContent.length);
-        } else {
+        const fileResponse = await fetch(signed.signedUrl);
+        if (!fileResponse.ok) {
           console.error("Failed to fetch file:", fileResponse.status);
           throw new Error(`Failed to fetch file: ${fileResponse.status}`);
         }
+        bytes = new Uint8Array(await fileResponse.arrayBuffer());
       } catch (fetchError) {
         console.error("Error fetching file:", fetchError);
-        throw new Error("Could not fetch file content");
+        throw new Error(`Could not fetch the content of "${file.name}"`);
       }
 
-      messages = [
-        {
-          role: "system",
-          content: "You are a helpful AI assistant that analyzes documents, code, and files. Provide detailed insights, explanations, and answer questions about the content. When analyzing code, explain what it does, how it works, and any notable patterns or issues."
-        },
-        {
-          role: "user",
-          content: `Here is the content of the file "${fileName}":\n\n\`\`\`\n${fileContent}\n\`\`\`\n\n${prompt || "Please analyze this file and explain what it does."}`
+      let extracted;
+      try {
+        extracted = await extractDocument(bytes, file.name, file.type);
+      } catch (extractError) {
+        if (extractError instanceof UnsupportedFileError) {
+          return new Response(
+            JSON.stringify({ error: extractError.message }),
+            { status: 415, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+          );
         }
-      ];
+        console.error("Error extracting file:", extractError);
+        throw new Error(`Could not read "${file.name}"; the file may be damaged`);
+      }
+      console.log("Extracted", extracted.format, "text from", file.name, "length:", extracted.text.length);
+
+      // Long documents are cut at chunk boundaries rather than mid-sentence
+      const chunks = chunkText(extracted.text, CHUNK_CHARS, 0);
+      const included: string[] = [];
+      let used = 0;
+      for (const chunk of chunks) {
+        if (used + chunk.length > charsPerDocument && included.length > 0) break;
+        included.push(chunk);
+        used += chunk.length;
+      }
+      const omitted = chunks.length - included.length;
+
+      parts.push({
+        type: "text",
+        text: `Here is the content of the file "${file.name}":\n\n\`\`\`\n${included.join("\n\n")}\n\`\`\`` +
+          (omitted > 0
+            ? `\n\n[Only the first ${included.length} of ${chunks.length} sections of "${file.name}" are shown; the rest did not fit. Mention this if the answer may depend on later sections.]`
+            : ""),
+      });
     }
 
+    const defaultPrompt = files.length === 1
+      ? files[0].type?.startsWith("image/")
+        ? `Please analyze this image (${files[0].name}) and describe what you see in detail.`
+        : "Please analyze this file and explain what it does."
+      : "Please analyze these files together: describe each one briefly, then explain how they relate to each other.";
+
+    parts.push({ type: "text", text: prompt || defaultPrompt });
+
+    const messages = [
+      {
+        role: "system",
+        content: "You are a helpful AI assistant that analyzes images, documents, code, and files. Provide detailed insights, explanations, and answer questions about the content. When analyzing code, explain what it does, how it works, and any notable patterns or issues. When given several files, reason over them together and refer to each by name."
+      },
+      {
+        role: "user",
+        content: parts,
+      },
+    ];
+
     const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
       method: "POST",
       headers: {
@@ -84,7 +172,7 @@ serve(async (req) => {
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
+        model,
         messages,
         stream: false,
       }),
@@ -92,10 +180,7 @@ serve(async (req) => {
 
     if (!response.ok) {
       if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limits exceeded, please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+        return upstreamRateLimitResponse(response, corsHeaders);
       }
       if (response.status === 402) {
         return new Response(
@@ -109,6 +194,15 @@ serve(async (req) => {
     }
 
     const data = await response.json();
+
+    await recordUsage({
+      userId: user.id,
+      feature: "analyze-file",
+      model,
+      usage: data.usage,
+      conversationId: conversation_id,
+    });
+
     const analysis = data.choices?.[0]?.message?.content || "Unable to analyze the file.";
 
     return new Response(
@@ -0,0 +1,160 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { UTILITY_MODEL } from "../_shared/models.ts";
+import { recordUsage } from "../_shared/usage.ts";
+import {
+  documentPartText,
+  IMAGE_TOKEN_ESTIMATE,
+  isImageAttachment,
+  type StoredAttachment,
+} from "../_shared/attachments.ts";
+
+export interface BranchMessage {
+  id: string;
+  role: string;
+  content: string;
+  attachments: StoredAttachment[];
+}
+
+// Roughly what fits comfortably in the smallest allowed model alongside the system prompt
+const CONTEXT_TOKEN_BUDGET = 24000;
+// When rolling into the summary, leave headroom so it isn't redone every turn
+const VERBATIM_TOKEN_TARGET = 12000;
+const MIN_VERBATIM_MESSAGES = 4;
+const MAX_SUMMARY_INPUT_CHARS = 60000;
+
+/** Cheap estimate (~4 characters per token); good enough to decide what to keep */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4) + 4;
+
+const estimateMessageTokens = (message: BranchMessage) =>
+  message.attachments.reduce(
+    (sum, a) => sum + (isImageAttachment(a) ? IMAGE_TOKEN_ESTIMATE : estimateTokens(documentPartText(a))),
+    estimateTokens(message.content)
+  );
+
+const totalTokens = (messages: BranchMessage[]) =>
+  messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+
+/** Index of the first message to keep verbatim so the tail stays within `target` */
+const findVerbatimStart = (messages: BranchMessage[], target: number) => {
+  let tokens = 0;
+  let start = messages.length;
+  while (start > 0) {
+    const next = tokens + estimateMessageTokens(messages[start - 1]);
+    if (next > target && messages.length - start >= MIN_VERBATIM_MESSAGES) break;
+    tokens = next;
+    start--;
+  }
+  // Start the verbatim part on a user turn so the model never sees a dangling reply
+  while (start < messages.length && messages[start].role !== "user") start++;
+  return start;
+};
+
+const summarize = async (
+  previousSummary: string | null,
+  messages: BranchMessage[],
+  apiKey: string
+) => {
+  const transcript = messages
+    .map((m) => {
+      const files = m.attachments.length > 0
+        ? ` [attached: ${m.attachments.map((a) => a.file_name).join(", ")}]`
+        : "";
+      return `${m.role === "user" ? "User" : "Assistant"}: ${m.content}${files}`;
+    })
+    .join("\n\n")
+    .slice(-MAX_SUMMARY_INPUT_CHARS);
+
+  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: UTILITY_MODEL,
+      messages: [
+        {
+          role: "system",
+          content: "You maintain a running summary of a conversation between a user and an AI assistant. Merge the existing summary with the new messages into one updated summary. Keep facts, decisions, names, numbers, code identifiers and open questions; drop pleasantries. Write in compact prose or bullets, at most 400 words.",
+        },
+        {
+          role: "user",
+          content: `Existing summary:\n${previousSummary || "(none)"}\n\nNew messages:\n${transcript}`,
+        },
+      ],
+      stream: false,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Summarization failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const summary = data.choices?.[0]?.message?.content?.trim();
+  if (!summary) throw new Error("Summarization returned no content");
+  return { summary, usage: data.usage };
+};
+
+interface AssembleContextOptions {
+  supabase: SupabaseClient;
+  userId: string;
+  apiKey: string;
+  conversation: { id: string; summary: string | null; summarized_through_id: string | null };
+  branch: BranchMessage[];
+}
+
+/**
+ * Fits the branch into the context budget: recent turns are sent verbatim and
+ * everything before them is represented by the conversation's running summary,
+ * which is extended and stored whenever the verbatim part outgrows the budget.
+ * Attachment sizes count towards the budget, so extract their text first.
+ */
+export const assembleContext = async ({
+  supabase,
+  userId,
+  apiKey,
+  conversation,
+  branch,
+}: AssembleContextOptions) => {
+  // The stored summary only applies if it was built from this branch
+  const summaryIndex = conversation.summarized_through_id
+    ? branch.findIndex((m) => m.id === conversation.summarized_through_id)
+    : -1;
+  let summary = summaryIndex >= 0 ? conversation.summary : null;
+  let summarizedThroughId = summaryIndex >= 0 ? conversation.summarized_through_id : null;
+  let verbatim = branch.slice(summaryIndex + 1);
+
+  if (totalTokens(verbatim) > CONTEXT_TOKEN_BUDGET) {
+    const start = findVerbatimStart(verbatim, VERBATIM_TOKEN_TARGET);
+    const toFold = verbatim.slice(0, start);
+
+    if (toFold.length > 0) {
+      try {
+        const result = await summarize(summary, toFold, apiKey);
+        summary = result.summary;
+        summarizedThroughId = toFold[toFold.length - 1].id;
+
+        await recordUsage({
+          userId,
+          feature: "chat",
+          model: UTILITY_MODEL,
+          usage: result.usage,
+          conversationId: conversation.id,
+        });
+
+        const { error } = await supabase
+          .from("conversations")
+          .update({ summary, summarized_through_id: summarizedThroughId })
+          .eq("id", conversation.id);
+        if (error) console.error("Failed to store summary:", error);
+      } catch (error) {
+        // Without a fresh summary, dropping the oldest turns still keeps the request valid
+        console.error("Summarization failed, truncating instead:", error);
+      }
+      verbatim = verbatim.slice(start);
+    }
+  }
+
+  return { summary, verbatim, summarizedThroughId };
+};
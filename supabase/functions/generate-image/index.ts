@@ -1,59 +1,261 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { decode as decodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { IMAGE_MODEL } from "../_shared/models.ts";
+import { getUserClient } from "../_shared/auth.ts";
+import { recordUsage } from "../_shared/usage.ts";
+import { enforceRateLimit, upstreamRateLimitResponse } from "../_shared/rateLimit.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+type ImageMode = "generate" | "edit" | "variation";
+
+const IMAGE_MODES: ImageMode[] = ["generate", "edit", "variation"];
+// Keep in sync with src/lib/imageOptions.ts
+const ASPECT_RATIOS = ["1:1", "16:9", "9:16", "4:3", "3:4"];
+const MAX_IMAGE_COUNT = 4;
+const MAX_OPTION_CHARS = 500;
+// Inline source images arrive as base64 data URLs; anything bigger than this is not a chat image
+const MAX_SOURCE_IMAGE_CHARS = 20 * 1024 * 1024;
+
+const isValidSourceImage = (value: unknown): value is string =>
+  typeof value === "string" &&
+  value.length <= MAX_SOURCE_IMAGE_CHARS &&
+  (value.startsWith("data:image/") || value.startsWith("https://"));
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+// The gateway usually returns a base64 data URL, occasionally a hosted one
+const loadGeneratedImage = async (imageUrl: string) => {
+  const dataUrl = imageUrl.match(/^data:(image\/[\w+.-]+);base64,(.*)$/s);
+  if (dataUrl) {
+    return { type: dataUrl[1], bytes: decodeBase64(dataUrl[2]) };
+  }
+
+  const response = await fetch(imageUrl);
+  if (!response.ok) throw new Error(`Failed to fetch generated image: ${response.status}`);
+  return {
+    type: response.headers.get("Content-Type")?.split(";")[0] || "image/png",
+    bytes: new Uint8Array(await response.arrayBuffer()),
+  };
+};
+
+/**
+ * Uploads the image next to the conversation's other files, so messages can
+ * reference it as an attachment instead of carrying it inline.
+ */
+const storeGeneratedImage = async (supabase: SupabaseClient, conversationId: string, imageUrl: string) => {
+  const { type, bytes } = await loadGeneratedImage(imageUrl);
+  const ext = IMAGE_EXTENSIONS[type] ?? "png";
+  const id = crypto.randomUUID();
+  const storagePath = `${conversationId}/generated/${id}.${ext}`;
+
+  const { error } = await supabase.storage
+    .from("chat-files")
+    .upload(storagePath, bytes, { contentType: type });
+  if (error) throw new Error(`Failed to store image: ${error.message}`);
+
+  return {
+    storage_path: storagePath,
+    file_name: `generated-${id.slice(0, 8)}.${ext}`,
+    file_type: type,
+    file_size: bytes.length,
+  };
+};
+
+interface ImageOptions {
+  style: string;
+  negativePrompt: string;
+  aspectRatio: string;
+}
+
+// The image model takes no separate parameters for these, so they are spelled out in the prompt
+const describeOptions = (mode: ImageMode, { style, negativePrompt, aspectRatio }: ImageOptions) =>
+  [
+    style && `Style: ${style}`,
+    // An edit keeps the source image's framing
+    mode !== "edit" && `Aspect ratio: ${aspectRatio}`,
+    negativePrompt && `Avoid: ${negativePrompt}`,
+  ].filter(Boolean).join("\n");
+
+// Edits and variations send the source image alongside the instruction
+const buildContent = (mode: ImageMode, prompt: string, sourceImage: string | null, options: ImageOptions) => {
+  const details = describeOptions(mode, options);
+  if (mode === "generate" || !sourceImage) return details ? `${prompt}\n\n${details}` : prompt;
+
+  const instruction = mode === "edit"
+    ? `Edit this image: ${prompt}\nKeep everything the instruction doesn't mention unchanged.`
+    : `Create a variation of this image. Keep its subject, composition and style, but vary the details.${prompt ? `\nAlso: ${prompt}` : ""}`;
+
+  return [
+    { type: "text", text: details ? `${instruction}\n\n${details}` : instruction },
+    { type: "image_url", image_url: { url: sourceImage } },
+  ];
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { prompt } = await req.json();
-    
-    if (!prompt) {
+    const {
+      prompt = "",
+      conversation_id,
+      mode = "generate",
+      source_path = null,
+      source_image = null,
+      aspect_ratio = "1:1",
+      count = 1,
+      style = "",
+      negative_prompt = "",
+    } = await req.json();
+
+    if (!conversation_id) {
+      return new Response(
+        JSON.stringify({ error: "conversation_id is required" }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    if (!IMAGE_MODES.includes(mode)) {
+      return new Response(
+        JSON.stringify({ error: `Unknown mode "${mode}"` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    // Variations can go without instructions; everything else needs a prompt
+    if (!prompt && mode !== "variation") {
       return new Response(
         JSON.stringify({ error: "Prompt is required" }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
       );
     }
 
+    if (!ASPECT_RATIOS.includes(aspect_ratio)) {
+      return new Response(
+        JSON.stringify({ error: `Aspect ratio must be one of ${ASPECT_RATIOS.join(", ")}` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(count) || count < 1 || count > MAX_IMAGE_COUNT) {
+      return new Response(
+        JSON.stringify({ error: `Count must be between 1 and ${MAX_IMAGE_COUNT}` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    if (typeof style !== "string" || typeof negative_prompt !== "string" ||
+        style.length > MAX_OPTION_CHARS || negative_prompt.length > MAX_OPTION_CHARS) {
+      return new Response(
+        JSON.stringify({ error: `Style and negative prompt must be text of at most ${MAX_OPTION_CHARS} characters` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
+    // Stored images are referenced by path; images from before storage still come inline
+    if (mode !== "generate" && typeof source_path !== "string" && !isValidSourceImage(source_image)) {
+      return new Response(
+        JSON.stringify({ error: "A source_path or source_image is required to edit or vary an image" }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      );
+    }
+
     const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
     if (!LOVABLE_API_KEY) {
       throw new Error('LOVABLE_API_KEY is not configured');
     }
 
-    console.log('Generating image with prompt:', prompt);
+    const auth = await getUserClient(req);
+    if (!auth) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      );
+    }
+
+    const { supabase, user } = auth;
+
+    // Each image is its own gateway call, so each one counts against the limits
+    const limited = await enforceRateLimit(supabase, user, "generate-image", corsHeaders, count);
+    if (limited) return limited;
+
+    const { data: conversation } = await supabase
+      .from("conversations")
+      .select("id")
+      .eq("id", conversation_id)
+      .maybeSingle();
+
+    if (!conversation) {
+      return new Response(
+        JSON.stringify({ error: "Conversation not found" }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+      );
+    }
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+    let sourceImage: string | null = source_image;
+    if (mode !== "generate" && typeof source_path === "string") {
+      // Signing through the caller's client also checks they can see the file
+      const { data: signed, error: signError } = await supabase.storage
+        .from("chat-files")
+        .createSignedUrl(source_path, 600);
+
+      if (signError || !signed) {
+        return new Response(
+          JSON.stringify({ error: "Source image not found" }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 404 }
+        );
+      }
+      sourceImage = signed.signedUrl;
+    }
+
+    console.log(`Image ${mode} x${count} with prompt:`, prompt);
+
+    const content = buildContent(mode, prompt, sourceImage, {
+      style: style.trim(),
+      negativePrompt: negative_prompt.trim(),
+      aspectRatio: aspect_ratio,
+    });
+
+    // The model returns one image per call, so several images are separate parallel calls
+    const requestImage = () => fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
       method: "POST",
       headers: {
         Authorization: `Bearer ${LOVABLE_API_KEY}`,
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
-        model: "google/gemini-2.5-flash-image-preview",
+        model: IMAGE_MODEL,
         messages: [
           {
             role: "user",
-            content: prompt
+            content
           }
         ],
         modalities: ["image", "text"]
       }),
     });
 
-    if (!response.ok) {
+    const responses = await Promise.all(Array.from({ length: count }, requestImage));
+    const succeeded = responses.filter((r) => r.ok);
+
+    if (succeeded.length === 0) {
+      const response = responses[0];
       const errorText = await response.text();
       console.error("AI gateway error:", response.status, errorText);
       
       if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
-          { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 429 }
-        );
+        return upstreamRateLimitResponse(response, corsHeaders);
       }
       
       if (response.status === 402) {
@@ -69,12 +271,31 @@ serve(async (req) => {
       );
     }
 
-    const data = await response.json();
-    console.log('Image generation response received');
-    
-    const imageUrl = data.choices?.[0]?.message?.images?.[0]?.image_url?.url;
-    
-    if (!imageUrl) {
+    // Partial results are still worth returning; the failures are only logged
+    for (const failed of responses.filter((r) => !r.ok)) {
+      console.error("AI gateway error for one of the images:", failed.status, await failed.text());
+    }
+
+    const images = [];
+    for (const response of succeeded) {
+      const data = await response.json();
+
+      await recordUsage({
+        userId: user.id,
+        feature: "generate-image",
+        model: IMAGE_MODEL,
+        usage: data.usage,
+        conversationId: conversation_id,
+      });
+
+      const imageUrl = data.choices?.[0]?.message?.images?.[0]?.image_url?.url;
+      if (imageUrl) {
+        images.push(await storeGeneratedImage(supabase, conversation_id, imageUrl));
+      }
+    }
+    console.log('Stored', images.length, 'of', count, 'generated images');
+
+    if (images.length === 0) {
       return new Response(
         JSON.stringify({ error: "No image generated" }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
@@ -82,7 +303,7 @@ serve(async (req) => {
     }
 
     return new Response(
-      JSON.stringify({ imageUrl }),
+      JSON.stringify({ images }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error) {
@@ -0,0 +1,144 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { getUserClient } from "../_shared/auth.ts";
+import { UTILITY_MODEL } from "../_shared/models.ts";
+import { recordUsage } from "../_shared/usage.ts";
+import { enforceRateLimit, upstreamRateLimitResponse } from "../_shared/rateLimit.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_TITLE_LENGTH = 60;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { conversation_id } = await req.json();
+    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+
+    if (!LOVABLE_API_KEY) {
+      throw new Error("LOVABLE_API_KEY is not configured");
+    }
+
+    if (!conversation_id) {
+      return new Response(
+        JSON.stringify({ error: "conversation_id is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const auth = await getUserClient(req);
+    if (!auth) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { supabase, user } = auth;
+
+    const limited = await enforceRateLimit(supabase, user, "generate-title", corsHeaders);
+    if (limited) return limited;
+
+    // The first exchange is enough to tell what the conversation is about
+    const { data: firstMessages, error: historyError } = await supabase
+      .from("messages")
+      .select("role, content")
+      .eq("conversation_id", conversation_id)
+      .order("created_at", { ascending: true })
+      .limit(2);
+
+    if (historyError) {
+      console.error("Error loading messages:", historyError);
+      throw new Error("Failed to load conversation");
+    }
+
+    if (!firstMessages || firstMessages.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "Conversation has no messages yet" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const transcript = firstMessages
+      .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content.slice(0, 2000)}`)
+      .join("\n\n");
+
+    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${LOVABLE_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: UTILITY_MODEL,
+        messages: [
+          {
+            role: "system",
+            content: "You write titles for chat conversations. Reply with a short, specific title of at most 6 words that captures the topic. No quotes, no trailing punctuation, no emoji.",
+          },
+          { role: "user", content: transcript },
+        ],
+        stream: false,
+      }),
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        return upstreamRateLimitResponse(response, corsHeaders);
+      }
+      if (response.status === 402) {
+        return new Response(
+          JSON.stringify({ error: "Payment required, please add funds to your workspace." }),
+          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      const text = await response.text();
+      console.error("AI gateway error:", response.status, text);
+      throw new Error("AI gateway error");
+    }
+
+    const data = await response.json();
+    await recordUsage({
+      userId: user.id,
+      feature: "generate-title",
+      model: UTILITY_MODEL,
+      usage: data.usage,
+      conversationId: conversation_id,
+    });
+
+    const title = (data.choices?.[0]?.message?.content || "")
+      .split("\n")[0]
+      .replace(/^["'\s#*]+|["'\s.*]+$/g, "")
+      .slice(0, MAX_TITLE_LENGTH);
+
+    if (!title) {
+      throw new Error("Could not generate a title");
+    }
+
+    const { error: updateError } = await supabase
+      .from("conversations")
+      .update({ title })
+      .eq("id", conversation_id);
+
+    if (updateError) {
+      console.error("Error updating title:", updateError);
+      throw new Error("Failed to save title");
+    }
+
+    return new Response(
+      JSON.stringify({ title }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("generate-title error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
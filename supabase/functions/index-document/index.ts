@@ -0,0 +1,151 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getUserClient } from "../_shared/auth.ts";
+import { enforceRateLimit } from "../_shared/rateLimit.ts";
+import { extractDocument, UnsupportedFileError } from "../_shared/extract.ts";
+import { indexDocument, indexKnowledgeDocument } from "../_shared/retrieval.ts";
+import {
+  extractAttachmentText,
+  INLINE_DOCUMENT_CHARS,
+  isImageAttachment,
+  type StoredAttachment,
+} from "../_shared/attachments.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/**
+ * Extracts a chat attachment's text and, for files too long to inline, embeds
+ * it into the conversation's document_chunks. Runs right after upload so chat
+ * only has to read the chunks.
+ */
+const indexAttachment = async (supabase: SupabaseClient, attachmentId: string) => {
+  const { data, error } = await supabase
+    .from("message_attachments")
+    .select("id, storage_path, file_name, file_type, extracted_text, position, messages(conversation_id)")
+    .eq("id", attachmentId)
+    .maybeSingle();
+
+  if (error || !data) {
+    return new Response(
+      JSON.stringify({ error: "Attachment not found" }),
+      { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const { messages, ...attachment } = data as StoredAttachment & { messages: { conversation_id: string } };
+  if (isImageAttachment(attachment)) {
+    return new Response(
+      JSON.stringify({ status: "ready", chunk_count: 0 }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+
+  const text = await extractAttachmentText(supabase, attachment);
+  const chunkCount = text !== null && text.length > INLINE_DOCUMENT_CHARS
+    ? await indexDocument(supabase, messages.conversation_id, attachment, text)
+    : 0;
+
+  console.log("Indexed", chunkCount, "chunks of attachment", attachment.file_name);
+
+  return new Response(
+    JSON.stringify({ status: "ready", chunk_count: chunkCount }),
+    { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+  );
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { document_id, attachment_id } = await req.json();
+
+    if (!document_id && !attachment_id) {
+      return new Response(
+        JSON.stringify({ error: "document_id or attachment_id is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const auth = await getUserClient(req);
+    if (!auth) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { supabase, user } = auth;
+
+    const limited = await enforceRateLimit(supabase, user, "index-document", corsHeaders);
+    if (limited) return limited;
+
+    if (attachment_id) return await indexAttachment(supabase, attachment_id);
+
+    const { data: document, error: documentError } = await supabase
+      .from("knowledge_documents")
+      .select("id, collection_id, storage_path, file_name, file_type")
+      .eq("id", document_id)
+      .maybeSingle();
+
+    if (documentError || !document) {
+      return new Response(
+        JSON.stringify({ error: "Document not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const setStatus = async (fields: { status: string; error?: string | null; chunk_count?: number }) => {
+      const { error } = await supabase.from("knowledge_documents").update(fields).eq("id", document.id);
+      if (error) console.error("Failed to update document status:", error);
+    };
+
+    await setStatus({ status: "indexing", error: null });
+
+    const { data: file, error: downloadError } = await supabase.storage
+      .from("chat-files")
+      .download(document.storage_path);
+
+    if (downloadError || !file) {
+      console.error("Failed to download document:", document.storage_path, downloadError);
+      await setStatus({ status: "error", error: "The file could not be loaded" });
+      throw new Error("Failed to load document");
+    }
+
+    try {
+      const { text } = await extractDocument(new Uint8Array(await file.arrayBuffer()), document.file_name, document.file_type);
+      const chunkCount = await indexKnowledgeDocument(supabase, document, text);
+      await setStatus({ status: "ready", error: null, chunk_count: chunkCount });
+
+      console.log("Indexed", chunkCount, "chunks of", document.file_name, "into collection", document.collection_id);
+
+      return new Response(
+        JSON.stringify({ status: "ready", chunk_count: chunkCount }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    } catch (error) {
+      if (error instanceof UnsupportedFileError) {
+        await setStatus({ status: "error", error: error.message });
+        return new Response(
+          JSON.stringify({ error: error.message }),
+          { status: 415, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      await setStatus({ status: "error", error: "The file could not be read" });
+      throw error;
+    }
+  } catch (error) {
+    console.error("Index document error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
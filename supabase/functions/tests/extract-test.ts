@@ -0,0 +1,99 @@
+import {
+  assert,
+  assertEquals,
+  assertRejects,
+  assertStringIncludes,
+} from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { chunkText, extractDocument, parseCsv, UnsupportedFileError } from "../_shared/extract.ts";
+
+const fixture = (name: string) => Deno.readFile(new URL(`./fixtures/${name}`, import.meta.url));
+
+const extractFixture = async (name: string, type: string | null = null) =>
+  extractDocument(await fixture(name), name, type);
+
+Deno.test("extracts the text layer of a PDF page by page", async () => {
+  const { format, text } = await extractFixture("report.pdf", "application/pdf");
+
+  assertEquals(format, "pdf");
+  assertStringIncludes(text, "--- Page 1 of 2 ---\nQuarterly report");
+  assertStringIncludes(text, "--- Page 2 of 2 ---\nRevenue grew 12% year over year.");
+});
+
+Deno.test("explains that a PDF without a text layer needs to be sent as images", async () => {
+  const { text } = await extractFixture("scanned.pdf");
+  assertStringIncludes(text, "no text layer");
+});
+
+Deno.test("extracts DOCX paragraphs with headings, tabs and entities", async () => {
+  const { format, text } = await extractFixture("proposal.docx");
+
+  assertEquals(format, "docx");
+  assertEquals(text, "# Project proposal\n\nBudget & timeline\n\nPhase\tQ3 <draft>");
+});
+
+Deno.test("renders every sheet of a workbook as a table", async () => {
+  const { format, text } = await extractFixture(
+    "budget.xlsx",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+  );
+
+  assertEquals(format, "spreadsheet");
+  assertStringIncludes(
+    text,
+    "## Sheet: Costs\n\n| Item | Cost |\n| --- | --- |\n| Servers | 1200 |\n| Design \\| UX | 800 |"
+  );
+  assertStringIncludes(text, "## Sheet: Notes\n\n| Approved by finance |");
+});
+
+Deno.test("renders CSV with quoted fields as a table", async () => {
+  const { format, text } = await extractFixture("contacts.csv", "text/csv");
+
+  assertEquals(format, "csv");
+  assertEquals(
+    text,
+    [
+      "| name | email | notes |",
+      "| --- | --- | --- |",
+      '| Doe, Jane | jane@example.com | Prefers "email" over phone |',
+      "| Bob | bob@example.com |  |",
+    ].join("\n")
+  );
+});
+
+Deno.test("detects tab-separated files", async () => {
+  const { text } = await extractFixture("metrics.tsv");
+  assertStringIncludes(text, "| latency_ms | 42 |");
+});
+
+Deno.test("passes plain text through unchanged", async () => {
+  const { format, text } = await extractFixture("notes.md");
+
+  assertEquals(format, "text");
+  assertEquals(text, "# Meeting notes\n\n- Ship the beta on Friday\n");
+});
+
+Deno.test("rejects binary files with no extractor", async () => {
+  await assertRejects(() => extractFixture("firmware.bin"), UnsupportedFileError);
+  await assertRejects(() => extractFixture("legacy.doc", "application/msword"), UnsupportedFileError, "legacy.doc");
+});
+
+Deno.test("parseCsv keeps newlines and escaped quotes inside quoted fields", () => {
+  assertEquals(parseCsv('a,"b ""c""\nd"\r\n1,2'), [["a", 'b "c"\nd'], ["1", "2"]]);
+});
+
+Deno.test("chunkText keeps chunks within the limit and overlaps them", () => {
+  const paragraphs = Array.from({ length: 20 }, (_, i) => `Paragraph ${i} ${"word ".repeat(30)}`.trim());
+  const chunks = chunkText(paragraphs.join("\n\n"), 500, 50);
+
+  assert(chunks.length > 1);
+  assert(chunks.every((chunk) => chunk.length <= 500));
+  for (let i = 1; i < chunks.length; i++) {
+    const tail = chunks[i - 1].slice(-20);
+    assertStringIncludes(chunks[i], tail.trim());
+  }
+});
+
+Deno.test("chunkText hard-splits text without any boundaries", () => {
+  const chunks = chunkText("x".repeat(1200), 500, 0);
+  assertEquals(chunks.map((chunk) => chunk.length), [500, 500, 200]);
+});
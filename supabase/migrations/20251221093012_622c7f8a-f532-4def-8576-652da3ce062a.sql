@@ -0,0 +1,5 @@
+-- Add per-conversation model selection
+ALTER TABLE public.conversations
+ADD COLUMN model TEXT NOT NULL DEFAULT 'google/gemini-2.5-flash';
+
+COMMENT ON COLUMN public.conversations.model IS 'AI gateway model used for replies in this conversation. Validated against an allow-list in the edge functions.';
@@ -0,0 +1,40 @@
+-- Create personas table for reusable assistant personalities
+CREATE TABLE public.personas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  system_prompt TEXT NOT NULL CHECK (char_length(system_prompt) <= 4000),
+  default_model TEXT NOT NULL DEFAULT 'google/gemini-2.5-flash',
+  temperature NUMERIC(3, 2) NOT NULL DEFAULT 1.0 CHECK (temperature >= 0 AND temperature <= 2),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.personas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own personas"
+  ON public.personas FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own personas"
+  ON public.personas FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own personas"
+  ON public.personas FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own personas"
+  ON public.personas FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_personas_user_id ON public.personas(user_id);
+
+CREATE TRIGGER update_personas_updated_at
+  BEFORE UPDATE ON public.personas
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Link conversations to the persona they were started with
+ALTER TABLE public.conversations
+ADD COLUMN persona_id UUID REFERENCES public.personas(id) ON DELETE SET NULL;
@@ -0,0 +1,9 @@
+-- Add pinning and archiving to conversations
+ALTER TABLE public.conversations
+ADD COLUMN pinned BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE DEFAULT NULL;
+
+COMMENT ON COLUMN public.conversations.archived_at IS 'Timestamp when the conversation was archived. Archived conversations are listed separately in the sidebar.';
+
+CREATE INDEX idx_conversations_user_pinned_updated
+  ON public.conversations(user_id, pinned DESC, updated_at DESC);
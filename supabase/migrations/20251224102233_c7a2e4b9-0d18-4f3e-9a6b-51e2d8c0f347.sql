@@ -0,0 +1,47 @@
+-- Full-text search over message contents
+ALTER TABLE public.messages
+ADD COLUMN content_tsv TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX idx_messages_content_tsv ON public.messages USING GIN (content_tsv);
+
+-- Ranked search across the caller's messages. Runs as the caller, so the
+-- messages and conversations RLS policies limit results to their own rows.
+CREATE OR REPLACE FUNCTION public.search_messages(search_query TEXT, result_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  message_id UUID,
+  conversation_id UUID,
+  conversation_title TEXT,
+  role TEXT,
+  snippet TEXT,
+  rank REAL,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  )
+  SELECT
+    m.id,
+    m.conversation_id,
+    c.title,
+    m.role,
+    ts_headline(
+      'english',
+      m.content,
+      query.q,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=1'
+    ),
+    ts_rank(m.content_tsv, query.q),
+    m.created_at
+  FROM public.messages m
+  JOIN public.conversations c ON c.id = m.conversation_id
+  CROSS JOIN query
+  WHERE m.content_tsv @@ query.q
+  ORDER BY ts_rank(m.content_tsv, query.q) DESC, m.created_at DESC
+  LIMIT LEAST(result_limit, 50);
+$$;
@@ -0,0 +1,18 @@
+-- Turn messages into a tree so edits and regenerations branch instead of deleting history
+ALTER TABLE public.messages
+ADD COLUMN parent_id UUID REFERENCES public.messages(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_messages_parent_id ON public.messages(parent_id);
+
+-- Existing conversations are linear: chain each message to the one before it
+WITH ordered AS (
+  SELECT id, LAG(id) OVER (PARTITION BY conversation_id ORDER BY created_at, id) AS previous_id
+  FROM public.messages
+)
+UPDATE public.messages m
+SET parent_id = ordered.previous_id
+FROM ordered
+WHERE m.id = ordered.id
+AND ordered.previous_id IS NOT NULL;
+
+COMMENT ON COLUMN public.messages.parent_id IS 'Previous message on this branch. Siblings sharing a parent are alternative edits or regenerated replies.';
@@ -0,0 +1,67 @@
+-- Persist thumbs up/down feedback on assistant messages
+CREATE TABLE public.message_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  rating TEXT NOT NULL CHECK (rating IN ('up', 'down')),
+  category TEXT CHECK (category IN ('inaccurate', 'not_helpful', 'incomplete', 'off_topic', 'unsafe', 'other')),
+  reason TEXT CHECK (char_length(reason) <= 1000),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (message_id, user_id)
+);
+
+ALTER TABLE public.message_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own feedback"
+  ON public.message_feedback FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can give feedback on messages in their conversations"
+  ON public.message_feedback FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM public.messages m
+      JOIN public.conversations c ON c.id = m.conversation_id
+      WHERE m.id = message_feedback.message_id
+      AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own feedback"
+  ON public.message_feedback FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own feedback"
+  ON public.message_feedback FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_message_feedback_user_id ON public.message_feedback(user_id, created_at DESC);
+
+CREATE TRIGGER update_message_feedback_updated_at
+  BEFORE UPDATE ON public.message_feedback
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Feedback alongside the rated answer, for reviewing bad responses.
+-- security_invoker keeps the underlying RLS policies in force.
+CREATE VIEW public.message_feedback_history
+WITH (security_invoker = true)
+AS
+SELECT
+  f.id,
+  f.user_id,
+  f.message_id,
+  f.rating,
+  f.category,
+  f.reason,
+  f.created_at,
+  f.updated_at,
+  m.content AS message_content,
+  m.conversation_id,
+  c.title AS conversation_title
+FROM public.message_feedback f
+JOIN public.messages m ON m.id = f.message_id
+JOIN public.conversations c ON c.id = m.conversation_id;
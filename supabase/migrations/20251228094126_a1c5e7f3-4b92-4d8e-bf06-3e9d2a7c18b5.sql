@@ -0,0 +1,52 @@
+-- Record token usage for every AI gateway call
+CREATE TABLE public.usage_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+  feature TEXT NOT NULL CHECK (feature IN ('chat', 'analyze-file', 'generate-image', 'generate-title')),
+  model TEXT NOT NULL,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.usage_events ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the edge functions with the service role; users can only read theirs
+CREATE POLICY "Users can view their own usage"
+  ON public.usage_events FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_usage_events_user_created ON public.usage_events(user_id, created_at DESC);
+
+-- Daily totals per feature and model for the caller
+CREATE OR REPLACE FUNCTION public.get_daily_usage(days INTEGER DEFAULT 30)
+RETURNS TABLE (
+  day DATE,
+  feature TEXT,
+  model TEXT,
+  requests BIGINT,
+  prompt_tokens BIGINT,
+  completion_tokens BIGINT,
+  total_tokens BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    (u.created_at AT TIME ZONE 'UTC')::date AS day,
+    u.feature,
+    u.model,
+    COUNT(*) AS requests,
+    SUM(u.prompt_tokens) AS prompt_tokens,
+    SUM(u.completion_tokens) AS completion_tokens,
+    SUM(u.total_tokens) AS total_tokens
+  FROM public.usage_events u
+  WHERE u.user_id = auth.uid()
+  AND u.created_at >= now() - make_interval(days => LEAST(days, 365))
+  GROUP BY 1, 2, 3
+  ORDER BY 1 DESC, 2, 3;
+$$;
@@ -0,0 +1,95 @@
+-- Request log backing the per-user sliding-window limiter and daily quotas
+CREATE TABLE public.rate_limit_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  feature TEXT NOT NULL CHECK (feature IN ('chat', 'analyze-file', 'generate-image', 'generate-title')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- Only check_rate_limit touches this table, so no policies are granted
+ALTER TABLE public.rate_limit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_rate_limit_events_user_feature_created
+  ON public.rate_limit_events(user_id, feature, created_at DESC);
+
+-- Checks the caller against a sliding window and a daily quota (UTC days) and,
+-- when allowed, records the request. retry_after is in seconds.
+CREATE OR REPLACE FUNCTION public.check_rate_limit(
+  p_feature TEXT,
+  p_window_seconds INTEGER,
+  p_max_requests INTEGER,
+  p_daily_quota INTEGER
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  reason TEXT,
+  retry_after INTEGER,
+  request_limit INTEGER,
+  remaining INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_now TIMESTAMP WITH TIME ZONE := now();
+  v_day_start TIMESTAMP WITH TIME ZONE := date_trunc('day', v_now AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_window_count INTEGER;
+  v_window_oldest TIMESTAMP WITH TIME ZONE;
+  v_daily_count INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Serialize concurrent requests from the same user so two can't both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::text || ':' || p_feature));
+
+  SELECT COUNT(*), MIN(e.created_at)
+  INTO v_window_count, v_window_oldest
+  FROM public.rate_limit_events e
+  WHERE e.user_id = v_user_id
+  AND e.feature = p_feature
+  AND e.created_at > v_now - make_interval(secs => p_window_seconds);
+
+  IF v_window_count >= p_max_requests THEN
+    RETURN QUERY SELECT
+      false,
+      'rate_limited'::TEXT,
+      GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_window_oldest + make_interval(secs => p_window_seconds) - v_now))))::INTEGER,
+      p_max_requests,
+      0;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*)
+  INTO v_daily_count
+  FROM public.rate_limit_events e
+  WHERE e.user_id = v_user_id
+  AND e.feature = p_feature
+  AND e.created_at >= v_day_start;
+
+  IF v_daily_count >= p_daily_quota THEN
+    RETURN QUERY SELECT
+      false,
+      'quota_exceeded'::TEXT,
+      GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_day_start + INTERVAL '1 day' - v_now))))::INTEGER,
+      p_daily_quota,
+      0;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.rate_limit_events (user_id, feature) VALUES (v_user_id, p_feature);
+
+  -- Nothing older than a day is ever read again
+  DELETE FROM public.rate_limit_events e
+  WHERE e.user_id = v_user_id
+  AND e.created_at < v_now - INTERVAL '2 days';
+
+  RETURN QUERY SELECT true, NULL::TEXT, 0, p_daily_quota, p_daily_quota - v_daily_count - 1;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_rate_limit(TEXT, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_rate_limit(TEXT, INTEGER, INTEGER, INTEGER) TO authenticated;
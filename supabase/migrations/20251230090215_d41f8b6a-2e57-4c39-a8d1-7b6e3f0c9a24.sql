@@ -0,0 +1,6 @@
+-- Running summary of turns that no longer fit in the model's context window.
+-- summarized_through_id is the last message folded in; the summary only applies
+-- to branches that pass through it.
+ALTER TABLE public.conversations
+  ADD COLUMN summary TEXT,
+  ADD COLUMN summarized_through_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
@@ -0,0 +1,86 @@
+-- Messages can carry several files; the single file_* columns on messages are kept
+-- for existing rows but new uploads are recorded here
+CREATE TABLE public.message_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE NOT NULL,
+  storage_path TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  file_type TEXT,
+  file_size INTEGER,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.message_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view attachments in their conversations"
+  ON public.message_attachments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages m
+      JOIN public.conversations c ON c.id = m.conversation_id
+      WHERE m.id = message_attachments.message_id
+      AND c.user_id = auth.uid()
+    )
+  );
+
+-- The storage policies below trust storage_path, so it must point into the
+-- message's own conversation folder (<conversation id>/...)
+CREATE POLICY "Users can add attachments to their messages"
+  ON public.message_attachments FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.messages m
+      JOIN public.conversations c ON c.id = m.conversation_id
+      WHERE m.id = message_attachments.message_id
+      AND c.user_id = auth.uid()
+      AND split_part(message_attachments.storage_path, '/', 1) = c.id::text
+    )
+  );
+
+CREATE POLICY "Users can delete attachments in their conversations"
+  ON public.message_attachments FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages m
+      JOIN public.conversations c ON c.id = m.conversation_id
+      WHERE m.id = message_attachments.message_id
+      AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX idx_message_attachments_message_id ON public.message_attachments(message_id, position);
+CREATE INDEX idx_message_attachments_storage_path ON public.message_attachments(storage_path);
+
+-- Move existing single-file messages over
+INSERT INTO public.message_attachments (message_id, storage_path, file_name, file_type, file_size, created_at)
+SELECT id, file_url, COALESCE(file_name, 'file'), file_type, file_size, created_at
+FROM public.messages
+WHERE file_url IS NOT NULL;
+
+-- Let owners read and delete files referenced by attachments, not just by messages.file_url
+CREATE POLICY "Users can view attachment files in their conversations"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'chat-files' AND
+  EXISTS (
+    SELECT 1 FROM public.message_attachments a
+    JOIN public.messages m ON m.id = a.message_id
+    JOIN public.conversations c ON c.id = m.conversation_id
+    WHERE a.storage_path = storage.objects.name
+    AND c.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete attachment files in their conversations"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'chat-files' AND
+  EXISTS (
+    SELECT 1 FROM public.message_attachments a
+    JOIN public.messages m ON m.id = a.message_id
+    JOIN public.conversations c ON c.id = m.conversation_id
+    WHERE a.storage_path = storage.objects.name
+    AND c.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,25 @@
+-- Text pulled out of document attachments the first time they are sent to the model,
+-- so later turns don't have to download and decode the file again
+ALTER TABLE public.message_attachments
+  ADD COLUMN extracted_text TEXT;
+
+CREATE POLICY "Users can update attachments in their conversations"
+  ON public.message_attachments FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages m
+      JOIN public.conversations c ON c.id = m.conversation_id
+      WHERE m.id = message_attachments.message_id
+      AND c.user_id = auth.uid()
+    )
+  )
+  -- Same storage_path rule as inserts, so a path can't be repointed at someone else's file
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.messages m
+      JOIN public.conversations c ON c.id = m.conversation_id
+      WHERE m.id = message_attachments.message_id
+      AND c.user_id = auth.uid()
+      AND split_part(message_attachments.storage_path, '/', 1) = c.id::text
+    )
+  );
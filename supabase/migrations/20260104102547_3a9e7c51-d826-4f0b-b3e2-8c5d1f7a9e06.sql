@@ -0,0 +1,80 @@
+-- Chunks of long uploaded documents with gte-small embeddings, so chat can
+-- retrieve the passages relevant to each question instead of sending the whole file
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE public.document_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+  attachment_id UUID REFERENCES public.message_attachments(id) ON DELETE SET NULL,
+  -- Edited messages copy their attachments; chunks are shared per file, not per copy
+  storage_path TEXT NOT NULL,
+  file_name TEXT NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding extensions.vector(384) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (conversation_id, storage_path, chunk_index)
+);
+
+ALTER TABLE public.document_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view chunks in their conversations"
+  ON public.document_chunks FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.conversations c
+      WHERE c.id = document_chunks.conversation_id
+      AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add chunks to their conversations"
+  ON public.document_chunks FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.conversations c
+      WHERE c.id = document_chunks.conversation_id
+      AND c.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX idx_document_chunks_embedding
+  ON public.document_chunks USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Sources cited by an assistant reply, shown under the message
+ALTER TABLE public.messages
+  ADD COLUMN citations JSONB;
+
+-- Closest chunks to a question within one conversation
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding extensions.vector(384),
+  target_conversation_id UUID,
+  match_count INTEGER DEFAULT 6
+)
+RETURNS TABLE (
+  id UUID,
+  attachment_id UUID,
+  storage_path TEXT,
+  file_name TEXT,
+  chunk_index INTEGER,
+  content TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    d.id,
+    d.attachment_id,
+    d.storage_path,
+    d.file_name,
+    d.chunk_index,
+    d.content,
+    1 - (d.embedding <=> query_embedding) AS similarity
+  FROM public.document_chunks d
+  WHERE d.conversation_id = target_conversation_id
+  ORDER BY d.embedding <=> query_embedding
+  LIMIT LEAST(match_count, 20);
+$$;
@@ -0,0 +1,206 @@
+-- Knowledge base: user-level collections of documents that any conversation can search
+CREATE TABLE public.knowledge_collections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+  description TEXT CHECK (char_length(description) <= 500),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.knowledge_collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own collections"
+  ON public.knowledge_collections FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own collections"
+  ON public.knowledge_collections FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own collections"
+  ON public.knowledge_collections FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own collections"
+  ON public.knowledge_collections FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_knowledge_collections_user_id ON public.knowledge_collections(user_id);
+
+CREATE TRIGGER update_knowledge_collections_updated_at
+  BEFORE UPDATE ON public.knowledge_collections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Files live in chat-files under knowledge/<user id>/<collection id>/, outside any conversation
+CREATE TABLE public.knowledge_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  collection_id UUID REFERENCES public.knowledge_collections(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  file_type TEXT,
+  file_size INTEGER,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'indexing', 'ready', 'error')),
+  error TEXT,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.knowledge_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own knowledge documents"
+  ON public.knowledge_documents FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- storage_path grants read access to the file (see the storage policy below),
+-- so it must point into the caller's own knowledge folder
+CREATE POLICY "Users can add documents to their own collections"
+  ON public.knowledge_documents FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id AND
+    split_part(storage_path, '/', 1) = 'knowledge' AND
+    split_part(storage_path, '/', 2) = auth.uid()::text AND
+    EXISTS (
+      SELECT 1 FROM public.knowledge_collections k
+      WHERE k.id = knowledge_documents.collection_id
+      AND k.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own knowledge documents"
+  ON public.knowledge_documents FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    split_part(storage_path, '/', 1) = 'knowledge' AND
+    split_part(storage_path, '/', 2) = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete their own knowledge documents"
+  ON public.knowledge_documents FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_knowledge_documents_collection_id ON public.knowledge_documents(collection_id);
+
+CREATE TRIGGER update_knowledge_documents_updated_at
+  BEFORE UPDATE ON public.knowledge_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.knowledge_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID REFERENCES public.knowledge_documents(id) ON DELETE CASCADE NOT NULL,
+  collection_id UUID REFERENCES public.knowledge_collections(id) ON DELETE CASCADE NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding extensions.vector(384) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (document_id, chunk_index)
+);
+
+ALTER TABLE public.knowledge_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view chunks of their own documents"
+  ON public.knowledge_chunks FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.knowledge_documents d
+      WHERE d.id = knowledge_chunks.document_id
+      AND d.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can add chunks to their own documents"
+  ON public.knowledge_chunks FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.knowledge_documents d
+      WHERE d.id = knowledge_chunks.document_id
+      AND d.collection_id = knowledge_chunks.collection_id
+      AND d.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete chunks of their own documents"
+  ON public.knowledge_chunks FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.knowledge_documents d
+      WHERE d.id = knowledge_chunks.document_id
+      AND d.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX idx_knowledge_chunks_embedding
+  ON public.knowledge_chunks USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Uploads into chat-files are already open to signed-in users; reading and deleting
+-- knowledge files needs its own policies since they belong to no message
+CREATE POLICY "Users can view their own knowledge files"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'chat-files' AND
+  (storage.foldername(name))[1] = 'knowledge' AND
+  (storage.foldername(name))[2] = auth.uid()::text AND
+  EXISTS (
+    SELECT 1 FROM public.knowledge_documents d
+    WHERE d.storage_path = storage.objects.name
+    AND d.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete their own knowledge files"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'chat-files' AND
+  (storage.foldername(name))[1] = 'knowledge' AND
+  (storage.foldername(name))[2] = auth.uid()::text
+);
+
+-- The collection a conversation searches alongside its own attachments
+ALTER TABLE public.conversations
+ADD COLUMN collection_id UUID REFERENCES public.knowledge_collections(id) ON DELETE SET NULL;
+
+-- Indexing runs through its own edge function, which is rate limited like the others
+ALTER TABLE public.rate_limit_events
+  DROP CONSTRAINT rate_limit_events_feature_check,
+  ADD CONSTRAINT rate_limit_events_feature_check
+    CHECK (feature IN ('chat', 'analyze-file', 'generate-image', 'generate-title', 'index-document'));
+
+-- Closest chunks to a question within one collection
+CREATE OR REPLACE FUNCTION public.match_knowledge_chunks(
+  query_embedding extensions.vector(384),
+  target_collection_id UUID,
+  match_count INTEGER DEFAULT 6
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  storage_path TEXT,
+  file_name TEXT,
+  chunk_index INTEGER,
+  content TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.document_id,
+    d.storage_path,
+    d.file_name,
+    c.chunk_index,
+    c.content,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM public.knowledge_chunks c
+  JOIN public.knowledge_documents d ON d.id = c.document_id
+  WHERE c.collection_id = target_collection_id
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT LEAST(match_count, 20);
+$$;
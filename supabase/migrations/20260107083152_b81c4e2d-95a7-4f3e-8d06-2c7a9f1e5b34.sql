@@ -0,0 +1,7 @@
+-- Images produced by editing or varying an earlier image point back at the message
+-- that showed the source, so the UI can link the two
+ALTER TABLE public.messages
+  ADD COLUMN source_message_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_messages_source_message_id ON public.messages(source_message_id)
+  WHERE source_message_id IS NOT NULL;
@@ -0,0 +1,37 @@
+-- Reusable image generation styles saved by each user
+CREATE TABLE public.image_style_presets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  style_prompt TEXT NOT NULL DEFAULT '' CHECK (char_length(style_prompt) <= 500),
+  negative_prompt TEXT CHECK (char_length(negative_prompt) <= 500),
+  -- Matches the aspect ratios generate-image accepts
+  aspect_ratio TEXT CHECK (aspect_ratio IN ('1:1', '16:9', '9:16', '4:3', '3:4')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.image_style_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own style presets"
+  ON public.image_style_presets FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own style presets"
+  ON public.image_style_presets FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own style presets"
+  ON public.image_style_presets FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own style presets"
+  ON public.image_style_presets FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_image_style_presets_user_id ON public.image_style_presets(user_id);
+
+CREATE TRIGGER update_image_style_presets_updated_at
+  BEFORE UPDATE ON public.image_style_presets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,90 @@
+-- Lets one request count as several events, so work that fans out (several
+-- images from one generate-image call) is charged per unit against the limits
+DROP FUNCTION IF EXISTS public.check_rate_limit(TEXT, INTEGER, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.check_rate_limit(
+  p_feature TEXT,
+  p_window_seconds INTEGER,
+  p_max_requests INTEGER,
+  p_daily_quota INTEGER,
+  p_cost INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  reason TEXT,
+  retry_after INTEGER,
+  request_limit INTEGER,
+  remaining INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_now TIMESTAMP WITH TIME ZONE := now();
+  v_day_start TIMESTAMP WITH TIME ZONE := date_trunc('day', v_now AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_window_count INTEGER;
+  v_window_oldest TIMESTAMP WITH TIME ZONE;
+  v_daily_count INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_cost < 1 THEN
+    RAISE EXCEPTION 'p_cost must be at least 1';
+  END IF;
+
+  -- Serialize concurrent requests from the same user so two can't both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext(v_user_id::text || ':' || p_feature));
+
+  SELECT COUNT(*), MIN(e.created_at)
+  INTO v_window_count, v_window_oldest
+  FROM public.rate_limit_events e
+  WHERE e.user_id = v_user_id
+  AND e.feature = p_feature
+  AND e.created_at > v_now - make_interval(secs => p_window_seconds);
+
+  IF v_window_count + p_cost > p_max_requests THEN
+    RETURN QUERY SELECT
+      false,
+      'rate_limited'::TEXT,
+      -- With an empty window only a smaller request can succeed; waiting a full window is the honest answer
+      GREATEST(1, CEIL(EXTRACT(EPOCH FROM (COALESCE(v_window_oldest, v_now) + make_interval(secs => p_window_seconds) - v_now))))::INTEGER,
+      p_max_requests,
+      GREATEST(0, p_max_requests - v_window_count);
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*)
+  INTO v_daily_count
+  FROM public.rate_limit_events e
+  WHERE e.user_id = v_user_id
+  AND e.feature = p_feature
+  AND e.created_at >= v_day_start;
+
+  IF v_daily_count + p_cost > p_daily_quota THEN
+    RETURN QUERY SELECT
+      false,
+      'quota_exceeded'::TEXT,
+      GREATEST(1, CEIL(EXTRACT(EPOCH FROM (v_day_start + INTERVAL '1 day' - v_now))))::INTEGER,
+      p_daily_quota,
+      GREATEST(0, p_daily_quota - v_daily_count);
+    RETURN;
+  END IF;
+
+  INSERT INTO public.rate_limit_events (user_id, feature)
+  SELECT v_user_id, p_feature FROM generate_series(1, p_cost);
+
+  -- Nothing older than a day is ever read again
+  DELETE FROM public.rate_limit_events e
+  WHERE e.user_id = v_user_id
+  AND e.created_at < v_now - INTERVAL '2 days';
+
+  RETURN QUERY SELECT true, NULL::TEXT, 0, p_daily_quota, p_daily_quota - v_daily_count - p_cost;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_rate_limit(TEXT, INTEGER, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_rate_limit(TEXT, INTEGER, INTEGER, INTEGER, INTEGER) TO authenticated;
@@ -1,8 +1,14 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { createRequire } from "module";
 import { componentTagger } from "lovable-tagger";
 
+const require = createRequire(import.meta.url);
+
+// Where a package is installed, found through its package.json rather than assuming a node_modules layout
+const packageDir = (name: string) => path.dirname(require.resolve(`${name}/package.json`));
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -13,6 +19,9 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // UMD builds for the sandboxed React preview, which loads React by URL instead of importing it
+      "react-umd": path.join(packageDir("react"), "umd"),
+      "react-dom-umd": path.join(packageDir("react-dom"), "umd"),
     },
   },
 }));